@@ -1,73 +1,129 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Layout } from './components/Layout';
 import { CustomerList } from './components/CustomerList';
 import { CustomerForm } from './components/CustomerForm';
 import { ImportCustomers } from './components/ImportCustomers';
+import { TrashView } from './components/TrashView';
+import { ImportHistory } from './components/ImportHistory';
+import { HierarchyView } from './components/HierarchyView';
+import { DeleteCustomerDialog } from './components/DeleteCustomerDialog';
+import { DuplicatesView } from './components/DuplicatesView';
+import { NotFound } from './components/NotFound';
+import { CustomerDetail } from './components/CustomerDetail';
 import { useCustomerData } from './hooks/useCustomerData';
-import { CustomerFormData, CustomerType, Customer } from './types';
-import { Plus } from 'lucide-react';
-
-type View = 'LIST' | 'CREATE' | 'EDIT' | 'IMPORT';
+import { useUndoShortcuts } from './hooks/useUndoShortcuts';
+import { useRoute } from './hooks/useRoute';
+import { ChildDisposition, CustomerFormData, Customer, ImportSource, SaveResult } from './types';
+import { Plus, AlertTriangle, Loader2, Trash2, Undo2, Redo2, Network, Copy } from 'lucide-react';
 
 function App() {
   const {
     customers,
+    deletedCustomers,
+    isLoading,
+    storageError,
+    reportStorageError,
     getParents,
     getDirectCustomers,
     addCustomer,
-    batchAddCustomers,
+    importCustomers,
+    importBatches,
+    getRollbackPlan,
+    rollbackImportBatch,
     updateCustomer,
+    moveCustomer,
     deleteCustomer,
     validateCustomer,
+    getCustomerHistory,
+    restoreCustomer,
+    mergeCustomers,
+    applyBulkAction,
+    purgeCustomers,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    searchIndex,
   } = useCustomerData();
 
-  const [currentView, setCurrentView] = useState<View>('LIST');
-  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  useUndoShortcuts(undo, redo);
+
+  const { route, navigate } = useRoute();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // The customer a `/customers/:id` route points at, which may not exist
+  const selectedCustomerId = route.name === 'CUSTOMER' || route.name === 'EDIT' ? route.id : null;
+  const goToList = () => navigate({ name: 'LIST' });
 
   const handleEdit = (id: string) => {
-    setSelectedCustomerId(id);
-    setCurrentView('EDIT');
+    navigate({ name: 'EDIT', id });
   };
 
+  // Opens the delete dialog, where the user decides what happens to any sub-accounts
   const handleDelete = (id: string) => {
-    const customer = customers.find(c => c.id === id);
-    if (!customer) return;
-    
-    const isParent = customer.type === CustomerType.PARENT;
-    // Count children for warning
-    const childCount = customers.filter(c => c.parentId === id).length;
-    
-    const message = isParent && childCount > 0 
-        ? `Are you sure you want to delete "${customer.name}"? \n\nWARNING: This is a Parent Customer with ${childCount} linked Direct Customers. These children will be converted to standalone customers.` 
-        : `Are you sure you want to delete "${customer.name}"? This action cannot be undone.`;
-
-    if (window.confirm(message)) {
-      deleteCustomer(id);
-    }
+    setDeletingId(id);
   };
 
-  const handleSubmit = (data: CustomerFormData, childIds?: string[]) => {
-    if (currentView === 'EDIT' && selectedCustomerId) {
-      updateCustomer(selectedCustomerId, data, childIds);
+  const handleConfirmDelete = (dispositions: Record<string, ChildDisposition>) => {
+    if (!deletingId) return null;
+    const error = deleteCustomer(deletingId, dispositions);
+    if (!error) setDeletingId(null);
+    return error;
+  };
+
+  const handleSubmit = (data: CustomerFormData, childIds: string[], baseVersion?: number): SaveResult => {
+    if (selectedCustomerId) {
+      const result = updateCustomer(selectedCustomerId, data, childIds, baseVersion);
+      // Stay on the form so the user can merge their edits with the newer record
+      if (!result.ok) return result;
     } else {
       addCustomer(data, childIds);
     }
-    setCurrentView('LIST');
-    setSelectedCustomerId(null);
+    // The saved form is not a page to come back to, so Back from the list skips it
+    navigate({ name: 'LIST' }, { replace: true });
+    return { ok: true };
   };
 
-  const handleImport = (newCustomers: Customer[]) => {
-    batchAddCustomers(newCustomers);
-    setCurrentView('LIST');
+  const handleImport = (newCustomers: Customer[], updatedCustomers: Customer[], source: ImportSource) => {
+    const skipped = importCustomers(newCustomers, updatedCustomers, source);
+    if (skipped.length > 0) {
+      window.alert(`These customers were changed after the preview and were not updated: ${skipped.join(', ')}`);
+    }
+    goToList();
   };
 
   const selectedCustomer = selectedCustomerId
     ? customers.find((c) => c.id === selectedCustomerId)
     : undefined;
+  const deletingCustomer = deletingId ? customers.find((c) => c.id === deletingId) : undefined;
+
+  // The customer whose edit form has been shown. If it is deleted in another tab the form stays open and
+  // says so, instead of turning into the not-found page and losing the user's edits.
+  const [shownEditId, setShownEditId] = useState<string | null>(null);
+  const editId = route.name === 'EDIT' ? route.id : null;
+  const hasSelectedCustomer = !!selectedCustomer;
+  useEffect(() => {
+    if (editId && hasSelectedCustomer) setShownEditId(editId);
+  }, [editId, hasSelectedCustomer]);
+  const isEditingRemoved = !!editId && !selectedCustomer && shownEditId === editId;
 
   return (
-    <Layout onNavigateHome={() => setCurrentView('LIST')}>
-      {currentView === 'LIST' && (
+    <Layout onNavigateHome={goToList}>
+      {storageError && (
+        <div className="mb-6 rounded-md bg-red-50 p-4 border border-red-200 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+          <p className="ml-3 text-sm text-red-700">{storageError}</p>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-20 text-gray-500">
+          <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+          Loading customers...
+        </div>
+      )}
+
+      {!isLoading && route.name === 'LIST' && (
         <div className="space-y-6">
           <div className="md:flex md:items-center md:justify-between">
             <div className="flex-1 min-w-0">
@@ -81,10 +137,49 @@ function App() {
             <div className="mt-4 flex md:mt-0 md:ml-4">
               <button
                 type="button"
-                onClick={() => {
-                  setSelectedCustomerId(null);
-                  setCurrentView('CREATE');
-                }}
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-l-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="-ml-px inline-flex items-center px-3 py-2 border border-gray-300 rounded-r-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Redo2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate({ name: 'HIERARCHY' })}
+                className="ml-3 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Network className="h-4 w-4 mr-2" />
+                Hierarchy
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate({ name: 'DUPLICATES' })}
+                className="ml-3 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Duplicates
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate({ name: 'TRASH' })}
+                className="ml-3 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Trash ({deletedCustomers.length})
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate({ name: 'CREATE' })}
                 className="ml-3 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
                 <Plus className="h-4 w-4 mr-2" />
@@ -95,31 +190,112 @@ function App() {
 
           <CustomerList
             customers={customers}
+            searchIndex={searchIndex}
             parents={getParents()}
+            onView={(id) => navigate({ name: 'CUSTOMER', id })}
             onEdit={handleEdit}
             onDelete={handleDelete}
-            onImport={() => setCurrentView('IMPORT')}
+            onImport={() => navigate({ name: 'IMPORT' })}
+            onBulkAction={applyBulkAction}
+            onStorageError={reportStorageError}
           />
         </div>
       )}
 
-      {(currentView === 'CREATE' || currentView === 'EDIT') && (
+      {deletingCustomer && (
+        <DeleteCustomerDialog
+          customer={deletingCustomer}
+          allCustomers={customers}
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setDeletingId(null)}
+        />
+      )}
+
+      {/* Keyed by customer, so going back and forward between two forms does not carry edits across */}
+      {!isLoading && (route.name === 'CREATE' || (route.name === 'EDIT' && selectedCustomer) || isEditingRemoved) && (
         <CustomerForm
+          key={selectedCustomerId || 'new'}
           initialData={selectedCustomer}
-          parents={getParents()}
           allCustomers={customers}
           onSubmit={handleSubmit}
-          onCancel={() => setCurrentView('LIST')}
+          onCancel={goToList}
           validate={validateCustomer}
+          history={selectedCustomerId ? getCustomerHistory(selectedCustomerId) : []}
+        />
+      )}
+
+      {!isLoading && route.name === 'CUSTOMER' && selectedCustomer && (
+        <CustomerDetail
+          customer={selectedCustomer}
+          allCustomers={customers}
+          history={getCustomerHistory(selectedCustomer.id)}
+          onNavigate={navigate}
+        />
+      )}
+
+      {!isLoading && selectedCustomerId && !selectedCustomer && !isEditingRemoved && (
+        <NotFound
+          customerId={selectedCustomerId}
+          path={window.location.pathname}
+          deletedCustomers={deletedCustomers}
+          onBack={goToList}
+          onOpenTrash={() => navigate({ name: 'TRASH' })}
+        />
+      )}
+
+      {!isLoading && route.name === 'NOT_FOUND' && (
+        <NotFound
+          path={route.path}
+          deletedCustomers={deletedCustomers}
+          onBack={goToList}
+          onOpenTrash={() => navigate({ name: 'TRASH' })}
         />
       )}
 
-      {currentView === 'IMPORT' && (
+      {!isLoading && route.name === 'IMPORT' && (
         <ImportCustomers
-          onCancel={() => setCurrentView('LIST')}
+          onCancel={goToList}
           onImport={handleImport}
+          onShowHistory={() => navigate({ name: 'IMPORT_HISTORY' })}
           existingCustomers={customers}
           existingParents={getParents()}
+          onStorageError={reportStorageError}
+        />
+      )}
+
+      {!isLoading && route.name === 'HIERARCHY' && (
+        <HierarchyView
+          customers={customers}
+          onMove={moveCustomer}
+          onEdit={handleEdit}
+          onBack={goToList}
+        />
+      )}
+
+      {!isLoading && route.name === 'DUPLICATES' && (
+        <DuplicatesView
+          customers={customers}
+          onMerge={mergeCustomers}
+          onBack={goToList}
+        />
+      )}
+
+      {!isLoading && route.name === 'IMPORT_HISTORY' && (
+        <ImportHistory
+          batches={importBatches}
+          getRollbackPlan={getRollbackPlan}
+          onRollback={rollbackImportBatch}
+          onBack={() => navigate({ name: 'IMPORT' })}
+        />
+      )}
+
+      {!isLoading && route.name === 'TRASH' && (
+        <TrashView
+          deletedCustomers={deletedCustomers}
+          allCustomers={customers}
+          onRestore={restoreCustomer}
+          onPurge={purgeCustomers}
+          onBack={goToList}
         />
       )}
     </Layout>
@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { BulkAction, Customer } from '../types';
+import { BULK_ACTION_LABELS, BulkPlan, planBulkAction } from '../services/bulkActions';
+import { getHierarchyPaths } from '../services/hierarchy';
+import { AlertTriangle, CheckCircle, Layers, X } from 'lucide-react';
+
+export type BulkDialogKind = BulkAction['type'] | 'EXPORT';
+
+export type ExportFormat = 'csv' | 'json';
+
+interface BulkActionDialogProps {
+  kind: BulkDialogKind;
+  selected: Customer[];
+  allCustomers: Customer[];
+  onApply: (action: BulkAction) => BulkPlan;
+  onExport: (format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+const TITLES: Record<BulkDialogKind, string> = { ...BULK_ACTION_LABELS, EXPORT: 'Export Selection' };
+
+// Long selections are summarised rather than listed in full
+const MAX_LISTED = 8;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const nameList = (customers: Customer[]) => {
+  const names = customers.slice(0, MAX_LISTED).map(c => c.name);
+  const more = customers.length - names.length;
+  return more > 0 ? `${names.join(', ')} and ${more} more` : names.join(', ');
+};
+
+export const BulkActionDialog: React.FC<BulkActionDialogProps> = ({ kind, selected: initialSelection, allCustomers, onApply, onExport, onClose }) => {
+  // Fixed when the dialog opens, so the result still names customers a delete removed from the list
+  const [selected] = useState(initialSelection);
+  const [isVip, setIsVip] = useState(true);
+  const [parentId, setParentId] = useState('');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  // Set once the action has run; the dialog then reports what happened
+  const [result, setResult] = useState<BulkPlan | null>(null);
+
+  const selectedIds = useMemo(() => selected.map(c => c.id), [selected]);
+  const paths = useMemo(() => getHierarchyPaths(allCustomers), [allCustomers]);
+  // A selected customer cannot become the parent of the others; the checks would reject it for itself anyway
+  const parentOptions = useMemo(
+    () => allCustomers
+      .filter(c => !selectedIds.includes(c.id))
+      .map(c => ({ id: c.id, label: paths.get(c.id) || c.name }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [allCustomers, selectedIds, paths]
+  );
+
+  let action: BulkAction | null = null;
+  if (kind === 'DELETE' || kind === 'DETACH') action = { type: kind };
+  if (kind === 'SET_VIP') action = { type: 'SET_VIP', isVip };
+  if (kind === 'ASSIGN_PARENT' && parentId) action = { type: 'ASSIGN_PARENT', parentId };
+  const plan = action ? planBulkAction(allCustomers, selectedIds, action) : null;
+
+  const appliedIds = new Set(plan?.applied.map(c => c.id));
+  const strandedCount = kind === 'DELETE'
+    ? allCustomers.filter(c => c.parentId && appliedIds.has(c.parentId) && !appliedIds.has(c.id)).length
+    : 0;
+
+  const summary = (): string => {
+    if (!plan) return kind === 'EXPORT' ? `${plural(selected.length, 'customer')} will be exported.` : 'Choose the new parent account.';
+    const count = plural(plan.applied.length, 'customer');
+    const already = plan.unchanged.length > 0 ? ` ${plural(plan.unchanged.length, 'customer')} already ${plan.unchanged.length === 1 ? 'is' : 'are'}.` : '';
+    switch (kind) {
+      case 'DELETE':
+        return `${count} will move to the Trash.${strandedCount > 0 ? ` ${plural(strandedCount, 'sub-account')} that ${strandedCount === 1 ? 'is' : 'are'} not selected will become standalone.` : ''}`;
+      case 'SET_VIP':
+        return `${count} will be ${isVip ? 'marked as VIP' : 'no longer VIP'}.${already}`;
+      case 'ASSIGN_PARENT':
+        return `${count} will move under ${paths.get(parentId)}, together with their sub-accounts.${plan.unchanged.length > 0 ? ` ${plural(plan.unchanged.length, 'customer')} already sit${plan.unchanged.length === 1 ? 's' : ''} there.` : ''}`;
+      default:
+        return `${count} will become standalone.${already}`;
+    }
+  };
+
+  const handleConfirm = () => {
+    if (kind === 'EXPORT') {
+      onExport(format);
+      onClose();
+      return;
+    }
+    if (action) setResult(onApply(action));
+  };
+
+  const canConfirm = kind === 'EXPORT' ? selected.length > 0 : !!plan && plan.applied.length > 0;
+  const failures = (result || plan)?.failures || [];
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-gray-500/75 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 flex items-center">
+              <Layers className="h-5 w-5 mr-2 text-blue-500" />
+              {TITLES[kind]}
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">{plural(selected.length, 'customer')} selected</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          {result ? (
+            <div className="rounded-md bg-green-50 p-4 border border-green-200 flex items-start">
+              <CheckCircle className="h-5 w-5 text-green-400 flex-shrink-0" />
+              <p className="ml-3 text-sm text-green-700">
+                {result.applied.length > 0
+                  ? `${TITLES[kind]} applied to ${plural(result.applied.length, 'customer')}: ${nameList(result.applied)}.`
+                  : 'No customers were changed.'}
+              </p>
+            </div>
+          ) : (
+            <>
+              {kind === 'SET_VIP' && (
+                <div className="flex gap-6">
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input type="radio" name="bulk-vip" checked={isVip} onChange={() => setIsVip(true)} className="h-4 w-4 text-blue-600 border-gray-300" />
+                    <span className="ml-2">Mark as VIP</span>
+                  </label>
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input type="radio" name="bulk-vip" checked={!isVip} onChange={() => setIsVip(false)} className="h-4 w-4 text-blue-600 border-gray-300" />
+                    <span className="ml-2">Remove VIP</span>
+                  </label>
+                </div>
+              )}
+
+              {kind === 'ASSIGN_PARENT' && (
+                <select
+                  aria-label="New parent"
+                  value={parentId}
+                  onChange={(e) => setParentId(e.target.value)}
+                  className="block w-full pl-3 pr-10 py-2 text-sm border-gray-300 rounded-md bg-white text-black"
+                >
+                  <option value="">-- Choose a parent --</option>
+                  {parentOptions.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                </select>
+              )}
+
+              {kind === 'EXPORT' && (
+                <div className="flex gap-6">
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input type="radio" name="bulk-format" checked={format === 'csv'} onChange={() => setFormat('csv')} className="h-4 w-4 text-blue-600 border-gray-300" />
+                    <span className="ml-2">CSV <span className="text-xs text-gray-500">(import columns)</span></span>
+                  </label>
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input type="radio" name="bulk-format" checked={format === 'json'} onChange={() => setFormat('json')} className="h-4 w-4 text-blue-600 border-gray-300" />
+                    <span className="ml-2">JSON <span className="text-xs text-gray-500">(all fields)</span></span>
+                  </label>
+                </div>
+              )}
+
+              <div className="text-sm text-gray-700 space-y-1">
+                <p>{summary()}</p>
+                {plan && plan.applied.length > 0 && <p className="text-xs text-gray-500">{nameList(plan.applied)}</p>}
+                {kind === 'EXPORT' && <p className="text-xs text-gray-500">{nameList(selected)}</p>}
+              </div>
+            </>
+          )}
+
+          {failures.length > 0 && (
+            <div className="rounded-md bg-red-50 p-4 border border-red-200 flex items-start">
+              <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+              <div className="ml-3 text-sm text-red-700">
+                <p className="font-medium">
+                  {result ? `${plural(failures.length, 'customer')} could not be changed:` : `${plural(failures.length, 'customer')} will be skipped:`}
+                </p>
+                <ul className="mt-1 space-y-1 list-disc pl-5">
+                  {failures.map(({ customer, reason }) => (
+                    <li key={customer.id}>"{customer.name}": {reason}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          {result ? (
+            <button
+              type="button"
+              onClick={onClose}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Close
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={!canConfirm}
+                className={`inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white disabled:opacity-50 disabled:cursor-not-allowed ${
+                  kind === 'DELETE' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {kind === 'EXPORT' ? 'Download' : `${TITLES[kind]} (${plan?.applied.length || 0})`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { ImportField } from '../types';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  MappingPreset,
+  applyPreset,
+  getMissingRequiredFields,
+  loadMappingPresets,
+  saveMappingPresets,
+  suggestMapping,
+  toPreset,
+} from '../services/importMapping';
+import { Columns, Save, Trash2, Wand2, AlertTriangle, ArrowRight } from 'lucide-react';
+
+interface ColumnMapperProps {
+  headers: string[];
+  sampleRows: string[][];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  onConfirm: () => void;
+  // Reports saved presets that could not be read
+  onStorageError: (message: string) => void;
+}
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({
+  headers,
+  sampleRows,
+  mapping,
+  onChange,
+  onConfirm,
+  onStorageError,
+}) => {
+  const [presets, setPresets] = useState<MappingPreset[]>([]);
+  // Read once on mount; a problem is reported through the app's storage error banner
+  useEffect(() => {
+    setPresets(loadMappingPresets(onStorageError));
+  }, []);
+  const [selectedPreset, setSelectedPreset] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  const missing = getMissingRequiredFields(mapping);
+
+  // A field can only come from one column; picking it here releases it elsewhere
+  const assign = (columnIndex: number, field: ImportField | null) => {
+    onChange(mapping.map((current, idx) => {
+      if (idx === columnIndex) return field;
+      return field && current === field ? null : current;
+    }));
+  };
+
+  const updatePresets = (next: MappingPreset[]) => {
+    setPresets(next);
+    saveMappingPresets(next);
+  };
+
+  const handleApplyPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find(p => p.name === name);
+    if (preset) onChange(applyPreset(headers, preset));
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    updatePresets([...presets.filter(p => p.name !== name), toPreset(name, headers, mapping)]);
+    setSelectedPreset(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    updatePresets(presets.filter(p => p.name !== selectedPreset));
+    setSelectedPreset('');
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Columns className="h-5 w-5 mr-2 text-gray-400" />
+          Map Columns
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedPreset}
+            onChange={(e) => handleApplyPreset(e.target.value)}
+            className="block pl-3 pr-10 py-1.5 text-sm border-gray-300 rounded-md bg-white text-black"
+          >
+            <option value="">{presets.length ? 'Apply saved mapping...' : 'No saved mappings'}</option>
+            {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </select>
+          {selectedPreset && (
+            <button type="button" onClick={handleDeletePreset} title="Delete saved mapping" className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(suggestMapping(headers))}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Wand2 className="h-4 w-4 mr-1" /> Auto-match
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Choose which field each column of your file fills. Columns set to "Ignore" are not imported.
+      </p>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">File Column</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sample Values</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Import As</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {headers.map((header, idx) => (
+              <tr key={idx}>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900 whitespace-nowrap">{header || `Column ${idx + 1}`}</td>
+                <td className="px-4 py-3 text-sm text-gray-500">
+                  <span className="truncate block max-w-xs">
+                    {sampleRows.map(row => row[idx]).filter(Boolean).join(' · ') || '-'}
+                  </span>
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    value={mapping[idx] || ''}
+                    onChange={(e) => assign(idx, (e.target.value || null) as ImportField | null)}
+                    className={`block w-full pl-3 pr-10 py-1.5 text-sm rounded-md bg-white text-black ${mapping[idx] ? 'border-blue-300' : 'border-gray-300'}`}
+                  >
+                    <option value="">Ignore</option>
+                    {IMPORT_FIELDS.map(f => (
+                      <option key={f.field} value={f.field}>{f.label}{f.required ? ' *' : ''}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-amber-700 flex items-center">
+          <AlertTriangle className="h-4 w-4 mr-1" />
+          Map a column to: {missing.map(f => f.label).join(', ')}
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Mapping name, e.g. ERP export"
+            className="block w-56 text-sm border-gray-300 rounded-md bg-white text-black"
+          />
+          <button
+            type="button"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4 mr-1" /> Save Mapping
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={missing.length > 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Analyze Rows <ArrowRight className="h-4 w-4 ml-2" />
+        </button>
+      </div>
+    </div>
+  );
+};
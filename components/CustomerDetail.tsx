@@ -0,0 +1,221 @@
+import React, { useMemo } from 'react';
+import { Address, AuditEntry, Customer, CustomerType, Route } from '../types';
+import { getAncestors, getChildrenMap } from '../services/hierarchy';
+import { CustomerHistory } from './CustomerHistory';
+import { RouteLink } from './RouteLink';
+import { ArrowLeft, Building, ChevronRight, Crown, Edit2, Lock, Mail, MapPin, Phone, Users } from 'lucide-react';
+
+interface CustomerDetailProps {
+  customer: Customer;
+  allCustomers: Customer[];
+  history: AuditEntry[];
+  onNavigate: (route: Route) => void;
+}
+
+const Badge: React.FC<{ className: string; children: React.ReactNode }> = ({ className, children }) => (
+  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${className}`}>{children}</span>
+);
+
+// Coordinates are free text in the form; only ones that read as numbers get a map link
+const mapUrl = (address: Address) => {
+  const lat = Number(address.latitude);
+  const lon = Number(address.longitude);
+  if (!address.latitude?.trim() || !address.longitude?.trim() || !Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lon}#map=17/${lat}/${lon}`;
+};
+
+const linkClass = 'text-blue-600 hover:text-blue-800 hover:underline';
+
+export const CustomerDetail: React.FC<CustomerDetailProps> = ({ customer, allCustomers, history, onNavigate }) => {
+  const childrenMap = useMemo(() => getChildrenMap<Customer>(allCustomers), [allCustomers]);
+  // Root first, ending with the direct parent
+  const ancestors = useMemo(() => getAncestors(allCustomers, customer.id).reverse(), [allCustomers, customer.id]);
+  const children = [...(childrenMap.get(customer.id) || [])].sort((a, b) => a.name.localeCompare(b.name));
+  const hasGate = customer.addresses.some(a => a.isGateProperty);
+
+  const customerLink = (target: Customer, className = linkClass) => (
+    <RouteLink to={{ name: 'CUSTOMER', id: target.id }} onNavigate={onNavigate} className={className}>
+      {target.name}
+    </RouteLink>
+  );
+
+  return (
+    <div className="space-y-6">
+      <nav aria-label="Breadcrumb" className="flex flex-wrap items-center text-sm text-gray-500">
+        <RouteLink to={{ name: 'LIST' }} onNavigate={onNavigate} className={linkClass}>Customers</RouteLink>
+        {ancestors.map(ancestor => (
+          <React.Fragment key={ancestor.id}>
+            <ChevronRight className="h-4 w-4 mx-1 text-gray-400" />
+            {customerLink(ancestor)}
+          </React.Fragment>
+        ))}
+        <ChevronRight className="h-4 w-4 mx-1 text-gray-400" />
+        <span className="text-gray-700 font-medium">{customer.name}</span>
+      </nav>
+
+      <div className="md:flex md:items-start md:justify-between">
+        <div className="flex items-start min-w-0">
+          <div className={`flex-shrink-0 h-12 w-12 rounded-full flex items-center justify-center ${customer.type === CustomerType.PARENT ? 'bg-purple-100 text-purple-600' : 'bg-blue-100 text-blue-600'}`}>
+            {customer.type === CustomerType.PARENT ? <Users className="h-6 w-6" /> : <Building className="h-6 w-6" />}
+          </div>
+          <div className="ml-4 min-w-0">
+            <h1 className="text-2xl font-bold text-gray-900">{customer.name}</h1>
+            <div className="mt-1 flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-900 font-mono bg-gray-100 px-2 py-0.5 rounded">{customer.accountNumber}</span>
+              {customer.accountAliases && customer.accountAliases.length > 0 && (
+                <span className="text-xs text-gray-400" title="Former account numbers">also {customer.accountAliases.join(', ')}</span>
+              )}
+              <Badge className={customer.type === CustomerType.PARENT ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'}>
+                {customer.type === CustomerType.PARENT ? 'Parent' : 'Direct'}
+              </Badge>
+              {customer.isVip && (
+                <Badge className="bg-yellow-100 text-yellow-800"><Crown className="h-3 w-3 mr-1" /> VIP</Badge>
+              )}
+              {hasGate && (
+                <Badge className="bg-gray-100 text-gray-700"><Lock className="h-3 w-3 mr-1" /> Gate property</Badge>
+              )}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Created {new Date(customer.createdAt).toLocaleDateString()} · Last updated {new Date(customer.updatedAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+        <div className="mt-4 flex gap-3 md:mt-0 md:ml-4 flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => onNavigate({ name: 'LIST' })}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" /> Back to List
+          </button>
+          <button
+            type="button"
+            onClick={() => onNavigate({ name: 'EDIT', id: customer.id })}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Edit2 className="h-4 w-4 mr-2" /> Edit
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Addresses</h2>
+          {customer.addresses.length === 0 ? (
+            <p className="text-sm text-gray-500">No addresses.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {customer.addresses.map(address => {
+                const url = mapUrl(address);
+                return (
+                  <li key={address.id} className="py-3 first:pt-0 last:pb-0 flex items-start">
+                    <MapPin className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-gray-400" />
+                    <div className="min-w-0 text-sm">
+                      {address.street && <p className="text-gray-900">{address.street}</p>}
+                      <p className="text-gray-700">{[address.city, [address.state, address.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', ')}</p>
+                      {address.latitude && address.longitude && (
+                        <p className="text-xs text-gray-500 font-mono">
+                          {address.latitude}, {address.longitude}
+                          {url && (
+                            <a href={url} target="_blank" rel="noopener noreferrer" className={`ml-2 font-sans ${linkClass}`}>View on map</a>
+                          )}
+                        </p>
+                      )}
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {address.isPrimary && <Badge className="bg-blue-100 text-blue-800">Primary</Badge>}
+                        {address.isBilling && <Badge className="bg-green-100 text-green-800">Billing</Badge>}
+                        {address.isGateProperty && <Badge className="bg-gray-100 text-gray-700"><Lock className="h-3 w-3 mr-1" /> Gate</Badge>}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Contacts</h2>
+          {customer.contacts.length === 0 ? (
+            <p className="text-sm text-gray-500">No contacts.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {customer.contacts.map(contact => (
+                <li key={contact.id} className="py-3 first:pt-0 last:pb-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{contact.name}</span>
+                    {contact.isPrimary && <Badge className="bg-blue-100 text-blue-800">Primary</Badge>}
+                  </div>
+                  {contact.email && (
+                    <a href={`mailto:${contact.email}`} className={`flex items-center mt-1 ${linkClass}`}>
+                      <Mail className="h-3 w-3 mr-1" /> {contact.email}
+                    </a>
+                  )}
+                  {contact.phone && (
+                    <a href={`tel:${contact.phone}`} className={`flex items-center mt-1 ${linkClass}`}>
+                      <Phone className="h-3 w-3 mr-1" /> {contact.phone}
+                    </a>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <h2 className="text-lg font-medium text-gray-900 px-6 pt-6 pb-4">
+          Sub-accounts <span className="text-sm font-normal text-gray-500">({children.length})</span>
+        </h2>
+        {children.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-gray-500">No sub-accounts.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account #</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Primary Contact</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {children.map(child => {
+                const primaryContact = child.contacts.find(c => c.isPrimary);
+                const grandchildCount = childrenMap.get(child.id)?.length || 0;
+                return (
+                  <tr key={child.id}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        {customerLink(child, `font-medium ${linkClass}`)}
+                        {child.isVip && <Crown className="w-3 h-3 text-yellow-500" />}
+                        {child.addresses.some(a => a.isGateProperty) && <span title="Gate property"><Lock className="w-3 h-3 text-gray-400" /></span>}
+                      </div>
+                      {grandchildCount > 0 && (
+                        <div className="text-xs text-gray-500">{grandchildCount} {grandchildCount === 1 ? 'sub-account' : 'sub-accounts'}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-mono text-gray-700">{child.accountNumber}</td>
+                    <td className="px-6 py-4 text-sm">
+                      {primaryContact ? (
+                        <>
+                          <div className="text-gray-900">{primaryContact.name}</div>
+                          <a href={`mailto:${primaryContact.email}`} className={linkClass}>{primaryContact.email}</a>
+                        </>
+                      ) : (
+                        <span className="text-red-500 font-medium">Missing Primary</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <CustomerHistory entries={history} customers={allCustomers} />
+      </div>
+    </div>
+  );
+};
@@ -1,51 +1,89 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Customer, CustomerType, CustomerFormData, Address } from '../types';
+import { Customer, CustomerType, CustomerFormData, Address, AuditEntry, SaveResult } from '../types';
 import { ContactManager } from './ContactManager';
+import { CustomerHistory } from './CustomerHistory';
+import { MergeDialog, MergeSide } from './MergeDialog';
+import { MAX_HIERARCHY_DEPTH, formatHierarchyPath, getAncestors, getDescendantIds, getHierarchyPaths } from '../services/hierarchy';
 import { ArrowLeft, Save, AlertTriangle, Building2, Crown, Plus, Trash2, Home, Link as LinkIcon, Unlink, Search, X } from 'lucide-react';
 
 interface CustomerFormProps {
   initialData?: Customer;
-  parents: Customer[];
   allCustomers: Customer[];
-  onSubmit: (data: CustomerFormData, childIds?: string[]) => void;
+  // `baseVersion` is the record version the edit started from, so stale saves can be rejected
+  onSubmit: (data: CustomerFormData, childIds: string[], baseVersion?: number) => SaveResult;
   onCancel: () => void;
-  validate: (data: CustomerFormData, id?: string) => string[];
+  validate: (data: CustomerFormData, id?: string, childIds?: string[]) => string[];
+  history?: AuditEntry[];
 }
 
+// Stands in for this customer's id in the planned hierarchy while it has not been saved
+const UNSAVED_ID = '__unsaved__';
+
+const toFormData = (customer?: Customer): CustomerFormData => ({
+  type: customer?.parentId ? CustomerType.DIRECT : CustomerType.PARENT,
+  name: customer?.name || '',
+  accountNumber: customer?.accountNumber || '',
+  isVip: customer?.isVip || false,
+  addresses: customer?.addresses || [],
+  parentId: customer?.parentId || null,
+  contacts: customer?.contacts || [],
+});
+
 export const CustomerForm: React.FC<CustomerFormProps> = ({
   initialData,
-  parents,
   allCustomers,
   onSubmit,
   onCancel,
   validate,
+  history = [],
 }) => {
-  const isEdit = !!initialData;
-  
+  // Snapshot of the record when editing started (or when the user last accepted outside changes)
+  const [baseline, setBaseline] = useState<Customer | undefined>(initialData);
+  const isEdit = !!baseline;
+
+  const getChildIds = (id?: string) => id ? allCustomers.filter(c => c.parentId === id).map(c => c.id) : [];
+  const [baselineChildIds, setBaselineChildIds] = useState<string[]>(() => getChildIds(initialData?.id));
+
   // Initialize state. 
   // Logic: If parentId exists, it's DIRECT. If not, we treat it as PARENT (Top Level) by default for the form.
-  const [formData, setFormData] = useState<CustomerFormData>({
-    type: initialData?.parentId ? CustomerType.DIRECT : CustomerType.PARENT,
-    name: initialData?.name || '',
-    accountNumber: initialData?.accountNumber || '',
-    isVip: initialData?.isVip || false,
-    addresses: initialData?.addresses || [],
-    parentId: initialData?.parentId || null,
-    contacts: initialData?.contacts || [],
-  });
+  const [formData, setFormData] = useState<CustomerFormData>(() => toFormData(initialData));
 
-  const [linkedChildIds, setLinkedChildIds] = useState<string[]>([]);
+  const [linkedChildIds, setLinkedChildIds] = useState<string[]>(baselineChildIds);
   const [childSearchTerm, setChildSearchTerm] = useState('');
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const searchContainerRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    if (initialData && initialData.type === CustomerType.PARENT) {
-      // Find all children (anyone who points to this ID)
-      const children = allCustomers.filter(c => c.parentId === initialData.id);
-      setLinkedChildIds(children.map(c => c.id));
-    }
-  }, [initialData, allCustomers]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [touched, setTouched] = useState(false);
+
+  // Detect edits made to this record elsewhere (another tab, or an undo) while the form is open
+  const currentChildIds = getChildIds(baseline?.id);
+  const wasDeletedElsewhere = !!baseline && !initialData;
+  const wasChangedElsewhere = !!baseline && !!initialData && (
+    JSON.stringify(toFormData(initialData)) !== JSON.stringify(toFormData(baseline)) ||
+    [...currentChildIds].sort().join() !== [...baselineChildIds].sort().join()
+  );
+
+  const loadLatest = () => {
+    setBaseline(initialData);
+    setBaselineChildIds(currentChildIds);
+    setFormData(toFormData(initialData));
+    setLinkedChildIds(currentChildIds);
+    setErrors([]);
+  };
+
+  // The saved record to merge the form against, when a three-way merge is open
+  const [mergeAgainst, setMergeAgainst] = useState<Customer | null>(null);
+
+  const resolveMerge = (merged: MergeSide) => {
+    if (!mergeAgainst) return;
+    // The merged values are now based on the latest saved version
+    setBaseline(mergeAgainst);
+    setBaselineChildIds(getChildIds(mergeAgainst.id));
+    setFormData(merged.data);
+    setLinkedChildIds(merged.childIds);
+    setMergeAgainst(null);
+  };
 
   // Handle click outside to close dropdown
   useEffect(() => {
@@ -60,9 +98,6 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
     };
   }, []);
 
-  const [errors, setErrors] = useState<string[]>([]);
-  const [touched, setTouched] = useState(false);
-
   // Address Helper Functions
   const addAddress = () => {
     const newAddr: Address = {
@@ -124,13 +159,17 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setTouched(true);
-    const validationErrors = validate(formData, initialData?.id);
+    const validationErrors = validate(formData, baseline?.id, linkedChildIds);
     if (validationErrors.length > 0) {
       setErrors(validationErrors);
       window.scrollTo({ top: 0, behavior: 'smooth' });
       return;
     }
-    onSubmit(formData, linkedChildIds);
+    const result = onSubmit(formData, linkedChildIds, baseline?.version);
+    // A record deleted elsewhere needs nothing here: the form already says so once `initialData` is gone
+    if (!result.ok && 'conflict' in result) {
+      setMergeAgainst(result.conflict);
+    }
   };
 
   const toggleChildLink = (childId: string) => {
@@ -146,32 +185,56 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
   // Derived state for linked customers to display in the list
   const linkedCustomers = allCustomers.filter(c => linkedChildIds.includes(c.id));
 
-  // Logic for search results
-  // Candidates: Not self, and NOT already a parent to someone else (prevent >2 levels)
-  // And NOT already linked in the current session (linkedChildIds)
-  const isParentRecursive = (id: string) => allCustomers.some(c => c.parentId === id);
-  
+  // The hierarchy as it would be saved with the current links
+  const selfId = baseline?.id || UNSAVED_ID;
+  const plannedNodes = allCustomers.map(c => {
+    if (linkedChildIds.includes(c.id)) return { ...c, parentId: selfId };
+    return c.parentId === selfId ? { ...c, parentId: null } : c;
+  });
+
+  // Parent options: anyone but this customer and its sub-accounts, which would close a loop.
+  // Depth limits are checked on save.
+  const descendantIds = getDescendantIds(plannedNodes, selfId);
+  const parentOptions = allCustomers.filter(c => c.id !== selfId && !descendantIds.has(c.id));
+  const parentPaths = getHierarchyPaths(allCustomers);
+
+  // Child candidates: not self, not already linked, and not above this customer in the chosen hierarchy
+  const ancestorIds = new Set(
+    formData.parentId ? [formData.parentId, ...getAncestors(allCustomers, formData.parentId).map(a => a.id)] : []
+  );
+
   const searchResults = allCustomers.filter(c => {
-      if (c.id === initialData?.id) return false;
+      if (c.id === baseline?.id) return false;
       if (linkedChildIds.includes(c.id)) return false;
-      if (isParentRecursive(c.id)) return false;
+      if (ancestorIds.has(c.id)) return false;
       
       const term = childSearchTerm.toLowerCase();
       return c.name.toLowerCase().includes(term) || c.accountNumber.toLowerCase().includes(term);
   });
 
-  const selectedParent = parents.find(p => p.id === formData.parentId);
+  const selectedParent = allCustomers.find(p => p.id === formData.parentId);
   const parentContacts = selectedParent ? selectedParent.contacts : [];
 
   return (
     <form onSubmit={handleSubmit} className="space-y-8 max-w-4xl mx-auto pb-10">
+      {mergeAgainst && baseline && (
+        <MergeDialog
+          base={{ data: toFormData(baseline), childIds: baselineChildIds }}
+          theirs={{ data: toFormData(mergeAgainst), childIds: getChildIds(mergeAgainst.id) }}
+          mine={{ data: formData, childIds: linkedChildIds }}
+          allCustomers={allCustomers}
+          onResolve={resolveMerge}
+          onCancel={() => setMergeAgainst(null)}
+        />
+      )}
+
       <div className="flex items-center justify-between mb-6">
         <div>
             <h1 className="text-2xl font-bold text-gray-900">
             {isEdit ? 'Edit Customer' : 'Create New Customer'}
             </h1>
             <p className="text-sm text-gray-500 mt-1">
-            {isEdit ? `Updating record for ${initialData.accountNumber}` : 'Fill in the details below to create a new customer record.'}
+            {isEdit ? `Updating record for ${baseline.accountNumber}` : 'Fill in the details below to create a new customer record.'}
             </p>
         </div>
         <button
@@ -183,6 +246,42 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
         </button>
       </div>
 
+      {wasDeletedElsewhere && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+          <p className="ml-3 text-sm text-red-700">
+            This customer was deleted in another tab while you were editing it. Your changes can no longer be saved.
+          </p>
+        </div>
+      )}
+
+      {wasChangedElsewhere && (
+        <div className="rounded-md bg-amber-50 p-4 border border-amber-200 sm:flex sm:items-center sm:justify-between">
+          <div className="flex items-start">
+            <AlertTriangle className="h-5 w-5 text-amber-400 flex-shrink-0" />
+            <p className="ml-3 text-sm text-amber-800">
+              This customer was changed in another tab since you started editing.
+            </p>
+          </div>
+          <div className="mt-3 sm:mt-0 sm:ml-4 flex gap-2 flex-shrink-0">
+            <button
+              type="button"
+              onClick={loadLatest}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-amber-600 hover:bg-amber-700"
+            >
+              Load Latest
+            </button>
+            <button
+              type="button"
+              onClick={() => setMergeAgainst(initialData || null)}
+              className="inline-flex items-center px-3 py-1.5 border border-amber-300 text-xs font-medium rounded-md text-amber-800 bg-white hover:bg-amber-50"
+            >
+              Review & Merge
+            </button>
+          </div>
+        </div>
+      )}
+
       {errors.length > 0 && (
         <div className="rounded-md bg-red-50 p-4 border border-red-200">
           <div className="flex">
@@ -223,31 +322,22 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
                         name="parentId"
                         value={formData.parentId || ''}
                         onChange={handleParentChange}
-                        disabled={linkedChildIds.length > 0} // Cannot have parent if you are a parent
                         className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md bg-white text-black disabled:bg-gray-100 disabled:text-gray-500"
                     >
                         <option value="">-- No Parent (Top Level Account) --</option>
-                        {parents
-                            .filter(p => p.id !== initialData?.id) // Prevent self-selection
-                            .map((parent) => (
+                        {parentOptions.map((parent) => (
                             <option key={parent.id} value={parent.id}>
-                                {parent.name} ({parent.accountNumber})
+                                {parentPaths.get(parent.id)} ({parent.accountNumber})
                             </option>
                         ))}
                     </select>
                 </div>
-                {linkedChildIds.length > 0 ? (
-                    <p className="mt-2 text-sm text-amber-600 flex items-center">
-                        <AlertTriangle className="w-4 h-4 mr-1"/>
-                        This account has linked child customers, so it cannot be assigned to another parent.
-                    </p>
-                ) : (
-                    <p className="mt-2 text-sm text-gray-500">
-                        {formData.parentId 
-                            ? `This customer will be a sub-account of ${selectedParent?.name}.`
-                            : "Leave empty if this is a standalone or parent company."}
-                    </p>
-                )}
+                <p className="mt-2 text-sm text-gray-500">
+                    {formData.parentId 
+                        ? `This customer will be a sub-account of ${formatHierarchyPath(allCustomers, formData.parentId)}.`
+                        : "Leave empty if this is a standalone or top-level company."}
+                    {' '}Hierarchies can be up to {MAX_HIERARCHY_DEPTH} levels deep.
+                </p>
             </div>
         </div>
       </div>
@@ -416,110 +506,115 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
         />
       </div>
 
-      {/* Section 5: Children Linking (Only for Top Level / Parent Accounts) */}
-      {!formData.parentId && (
-        <div className="bg-white shadow rounded-lg p-6">
-             <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
-                <LinkIcon className="w-5 h-5 mr-2 text-gray-400"/>
-                Link Child Customers
-             </h2>
-             
-             {/* List of currently linked */}
-             {linkedCustomers.length > 0 && (
-                <div className="mb-6">
-                    <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
-                        Currently Linked ({linkedCustomers.length})
-                    </h3>
-                    <div className="bg-gray-50 rounded-md border border-gray-200 divide-y divide-gray-200">
-                        {linkedCustomers.map(child => (
-                            <div key={child.id} className="p-3 flex items-center justify-between">
-                                <div className="flex items-center">
-                                    <div className="flex-shrink-0 h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold text-xs">
-                                        {child.name.substring(0,2).toUpperCase()}
-                                    </div>
-                                    <div className="ml-3">
-                                        <p className="text-sm font-medium text-gray-900">{child.name}</p>
-                                        <p className="text-xs text-gray-500">{child.accountNumber}</p>
-                                    </div>
-                                </div>
-                                <button
-                                    type="button"
-                                    onClick={() => toggleChildLink(child.id)}
-                                    className="text-red-600 hover:text-red-800 p-1 rounded-full hover:bg-red-50"
-                                    title="Unlink Customer"
-                                >
-                                    <Unlink className="h-4 w-4" />
-                                </button>
-                            </div>
-                        ))}
-                    </div>
-                </div>
-             )}
-
-             {/* Search Dropdown */}
-             <div className="relative" ref={searchContainerRef}>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Add Child Customer</label>
-                <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                        <Search className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <input
-                        type="text"
-                        className="focus:ring-blue-500 focus:border-blue-500 block w-full pl-10 pr-10 sm:text-sm border-gray-300 rounded-md py-2 text-black bg-white"
-                        placeholder="Search by name or account number..."
-                        value={childSearchTerm}
-                        onChange={(e) => {
-                            setChildSearchTerm(e.target.value);
-                            setIsSearchFocused(true);
-                        }}
-                        onFocus={() => setIsSearchFocused(true)}
-                    />
-                    {childSearchTerm && (
-                        <div className="absolute inset-y-0 right-0 pr-3 flex items-center cursor-pointer" onClick={() => setChildSearchTerm('')}>
-                            <X className="h-4 w-4 text-gray-400 hover:text-gray-600" />
-                        </div>
-                    )}
-                </div>
+      {/* Section 5: Children Linking (sub-accounts at any level) */}
+      <div className="bg-white shadow rounded-lg p-6">
+           <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <LinkIcon className="w-5 h-5 mr-2 text-gray-400"/>
+              Link Child Customers
+           </h2>
+           
+           {/* List of currently linked */}
+           {linkedCustomers.length > 0 && (
+              <div className="mb-6">
+                  <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                      Currently Linked ({linkedCustomers.length})
+                  </h3>
+                  <div className="bg-gray-50 rounded-md border border-gray-200 divide-y divide-gray-200">
+                      {linkedCustomers.map(child => (
+                          <div key={child.id} className="p-3 flex items-center justify-between">
+                              <div className="flex items-center">
+                                  <div className="flex-shrink-0 h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold text-xs">
+                                      {child.name.substring(0,2).toUpperCase()}
+                                  </div>
+                                  <div className="ml-3">
+                                      <p className="text-sm font-medium text-gray-900">{child.name}</p>
+                                      <p className="text-xs text-gray-500">{child.accountNumber}</p>
+                                  </div>
+                              </div>
+                              <button
+                                  type="button"
+                                  onClick={() => toggleChildLink(child.id)}
+                                  className="text-red-600 hover:text-red-800 p-1 rounded-full hover:bg-red-50"
+                                  title="Unlink Customer"
+                              >
+                                  <Unlink className="h-4 w-4" />
+                              </button>
+                          </div>
+                      ))}
+                  </div>
+              </div>
+           )}
+
+           {/* Search Dropdown */}
+           <div className="relative" ref={searchContainerRef}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Add Child Customer</label>
+              <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Search className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                      type="text"
+                      className="focus:ring-blue-500 focus:border-blue-500 block w-full pl-10 pr-10 sm:text-sm border-gray-300 rounded-md py-2 text-black bg-white"
+                      placeholder="Search by name or account number..."
+                      value={childSearchTerm}
+                      onChange={(e) => {
+                          setChildSearchTerm(e.target.value);
+                          setIsSearchFocused(true);
+                      }}
+                      onFocus={() => setIsSearchFocused(true)}
+                  />
+                  {childSearchTerm && (
+                      <div className="absolute inset-y-0 right-0 pr-3 flex items-center cursor-pointer" onClick={() => setChildSearchTerm('')}>
+                          <X className="h-4 w-4 text-gray-400 hover:text-gray-600" />
+                      </div>
+                  )}
+              </div>
 
-                {isSearchFocused && (
-                     <div className="absolute z-10 mt-1 w-full bg-white shadow-lg max-h-60 rounded-md py-1 text-base ring-1 ring-black ring-opacity-5 overflow-auto focus:outline-none sm:text-sm">
-                         {searchResults.length === 0 ? (
-                             <div className="cursor-default select-none relative py-2 px-4 text-gray-500 text-sm">
-                                 {childSearchTerm ? 'No matching customers found.' : 'Start typing to search...'}
-                             </div>
-                         ) : (
-                             searchResults.map(child => {
-                                 const currentParent = parents.find(p => p.id === child.parentId);
-                                 const isAssigned = !!currentParent && currentParent.id !== initialData?.id;
-                                 
-                                 return (
-                                    <div 
-                                        key={child.id}
-                                        className="cursor-pointer select-none relative py-2 pl-3 pr-9 hover:bg-blue-50 border-b border-gray-50 last:border-0"
-                                        onClick={() => {
-                                            toggleChildLink(child.id);
-                                            setChildSearchTerm('');
-                                            setIsSearchFocused(false);
-                                        }}
-                                    >
-                                        <div className="flex items-center justify-between">
-                                            <div>
-                                                <span className="block font-medium text-gray-900">{child.name}</span>
-                                                <span className="block text-xs text-gray-500">{child.accountNumber}</span>
-                                            </div>
-                                            {isAssigned && (
-                                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 mr-2">
-                                                    Assigned to: {currentParent.name}
-                                                </span>
-                                            )}
-                                        </div>
-                                    </div>
-                                 );
-                             })
-                         )}
-                     </div>
-                )}
-             </div>
+              {isSearchFocused && (
+                   <div className="absolute z-10 mt-1 w-full bg-white shadow-lg max-h-60 rounded-md py-1 text-base ring-1 ring-black ring-opacity-5 overflow-auto focus:outline-none sm:text-sm">
+                       {searchResults.length === 0 ? (
+                           <div className="cursor-default select-none relative py-2 px-4 text-gray-500 text-sm">
+                               {childSearchTerm ? 'No matching customers found.' : 'Start typing to search...'}
+                           </div>
+                       ) : (
+                           searchResults.map(child => {
+                               const currentParent = allCustomers.find(p => p.id === child.parentId);
+                               const isAssigned = !!currentParent && currentParent.id !== baseline?.id;
+                               
+                               return (
+                                  <div 
+                                      key={child.id}
+                                      className="cursor-pointer select-none relative py-2 pl-3 pr-9 hover:bg-blue-50 border-b border-gray-50 last:border-0"
+                                      onClick={() => {
+                                          toggleChildLink(child.id);
+                                          setChildSearchTerm('');
+                                          setIsSearchFocused(false);
+                                      }}
+                                  >
+                                      <div className="flex items-center justify-between">
+                                          <div>
+                                              <span className="block font-medium text-gray-900">{child.name}</span>
+                                              <span className="block text-xs text-gray-500">{child.accountNumber}</span>
+                                          </div>
+                                          {isAssigned && (
+                                              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 mr-2">
+                                                  Assigned to: {currentParent.name}
+                                              </span>
+                                          )}
+                                      </div>
+                                  </div>
+                               );
+                           })
+                       )}
+                   </div>
+              )}
+           </div>
+      </div>
+
+      {/* Section 6: Change History (Edit only) */}
+      {isEdit && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <CustomerHistory entries={history} customers={allCustomers} />
         </div>
       )}
 
@@ -533,7 +628,8 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
         </button>
         <button
           type="submit"
-          className="inline-flex items-center px-6 py-3 border border-transparent shadow-sm text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          disabled={wasDeletedElsewhere}
+          className="inline-flex items-center px-6 py-3 border border-transparent shadow-sm text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <Save className="h-5 w-5 mr-2" />
           Save Customer
@@ -0,0 +1,95 @@
+import React from 'react';
+import { AuditAction, AuditEntry, Customer, FieldChange } from '../types';
+import { History, PlusCircle, Edit2, Trash2, Upload, ArrowRight, RotateCcw, Undo2, Redo2, XCircle, GitMerge } from 'lucide-react';
+
+interface CustomerHistoryProps {
+  entries: AuditEntry[]; // Newest first
+  customers: Customer[];
+}
+
+const ACTION_STYLES: Record<AuditAction, { label: string; icon: React.ReactNode; className: string }> = {
+  CREATE: { label: 'Created', icon: <PlusCircle className="h-4 w-4" />, className: 'bg-green-100 text-green-700' },
+  IMPORT: { label: 'Imported', icon: <Upload className="h-4 w-4" />, className: 'bg-green-100 text-green-700' },
+  ROLLBACK: { label: 'Import rolled back', icon: <History className="h-4 w-4" />, className: 'bg-amber-100 text-amber-700' },
+  UPDATE: { label: 'Updated', icon: <Edit2 className="h-4 w-4" />, className: 'bg-blue-100 text-blue-700' },
+  DELETE: { label: 'Moved to Trash', icon: <Trash2 className="h-4 w-4" />, className: 'bg-red-100 text-red-700' },
+  RESTORE: { label: 'Restored', icon: <RotateCcw className="h-4 w-4" />, className: 'bg-green-100 text-green-700' },
+  PURGE: { label: 'Permanently deleted', icon: <XCircle className="h-4 w-4" />, className: 'bg-red-100 text-red-700' },
+  MERGE: { label: 'Merged', icon: <GitMerge className="h-4 w-4" />, className: 'bg-purple-100 text-purple-700' },
+  UNDO: { label: 'Undone', icon: <Undo2 className="h-4 w-4" />, className: 'bg-gray-100 text-gray-700' },
+  REDO: { label: 'Redone', icon: <Redo2 className="h-4 w-4" />, className: 'bg-gray-100 text-gray-700' },
+};
+
+const TRIGGER_VERBS: Record<AuditAction, string> = {
+  CREATE: 'created',
+  IMPORT: 'imported',
+  ROLLBACK: 'rolled back with its import',
+  UPDATE: 'updated',
+  DELETE: 'moved to the Trash',
+  RESTORE: 'restored',
+  PURGE: 'permanently deleted',
+  MERGE: 'merged with a duplicate',
+  UNDO: 'undone',
+  REDO: 'redone',
+};
+
+export const CustomerHistory: React.FC<CustomerHistoryProps> = ({ entries, customers }) => {
+  const formatValue = (change: FieldChange, value: FieldChange['before']) => {
+    if (value === null) return <span className="italic text-gray-400">empty</span>;
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    // Parent changes store ids; show the account name where we still have it
+    if (change.field === 'parentId') {
+      const parent = customers.find(c => c.id === value);
+      return parent ? `${parent.name} (${parent.accountNumber})` : value;
+    }
+    return value;
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <History className="w-5 h-5 mr-2 text-gray-400" />
+        History
+      </h2>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes have been recorded for this customer yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+          {entries.map(entry => {
+            const style = ACTION_STYLES[entry.action];
+            return (
+              <li key={entry.id} className="ml-6">
+                <span className={`absolute -left-3 flex items-center justify-center h-6 w-6 rounded-full ring-4 ring-white ${style.className}`}>
+                  {style.icon}
+                </span>
+                <div className="flex flex-wrap items-baseline gap-x-2">
+                  <span className="text-sm font-medium text-gray-900">{style.label}</span>
+                  <span className="text-sm text-gray-500">by {entry.actor}</span>
+                  <time className="text-xs text-gray-400">{new Date(entry.timestamp).toLocaleString()}</time>
+                </div>
+                {entry.triggeredBy && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Side effect: {entry.triggeredBy.customerName} was {TRIGGER_VERBS[entry.triggeredBy.action]}.
+                  </p>
+                )}
+                {entry.changes.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {entry.changes.map(change => (
+                      <li key={change.field} className="text-sm text-gray-700 flex flex-wrap items-center gap-1">
+                        <span className="font-medium">{change.label}:</span>
+                        <span className="text-gray-500">{formatValue(change, change.before)}</span>
+                        <ArrowRight className="h-3 w-3 text-gray-400" />
+                        <span className="text-gray-900">{formatValue(change, change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
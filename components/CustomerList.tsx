@@ -1,51 +1,142 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Customer, CustomerType, SortField, SortDirection } from '../types';
-import { Edit2, Trash2, Search, ArrowUpDown, MapPin, Users, CornerDownRight, Upload, Crown, ChevronLeft, ChevronRight, ChevronDown, Building } from 'lucide-react';
+import { BulkAction, Customer, CustomerType, ListLayout, ListViewState, SortConfig, SortField } from '../types';
+import { Edit2, Trash2, ArrowUpDown, MapPin, Users, CornerDownRight, Upload, Download, Crown, ChevronLeft, ChevronRight, ChevronDown, Building, Link2, Unlink, X, ListTree, List } from 'lucide-react';
+import { customersToCsv, customersToJson, downloadFile } from '../services/customerExport';
+import { formatHierarchyPath, getAncestors, getChildrenMap } from '../services/hierarchy';
+import { createQueryMatcher, getSearchText, parseQuery } from '../services/customerQuery';
+import { IndexedField, SearchIndex } from '../services/searchIndex';
+import { BulkPlan } from '../services/bulkActions';
+import { DEFAULT_LIST_STATE, decodeListState, encodeListState } from '../services/listViewState';
+import { BulkActionDialog, BulkDialogKind, ExportFormat } from './BulkActionDialog';
+import { QuerySearchInput } from './QuerySearchInput';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { RouteLink } from './RouteLink';
+import { Highlight } from './Highlight';
+
+// A row of the table; `depth` is how far it is indented under its root account
+interface ListRow {
+  customer: Customer;
+  depth: number;
+}
+
+// Where a match the row does not already show came from
+const MATCH_LABELS: Partial<Record<IndexedField['field'], string>> = {
+  street: 'Address',
+  city: 'Address',
+  state: 'Address',
+  zip: 'Address',
+  contact: 'Contact',
+  email: 'Contact',
+  phone: 'Contact',
+};
 
 interface CustomerListProps {
   customers: Customer[];
+  searchIndex: SearchIndex;
   parents: Customer[];
+  onView: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
   onImport: () => void;
+  onBulkAction: (ids: string[], action: BulkAction) => BulkPlan;
+  onStorageError: (message: string) => void;
 }
 
 export const CustomerList: React.FC<CustomerListProps> = ({
   customers,
+  searchIndex,
   parents,
+  onView,
   onEdit,
   onDelete,
   onImport,
+  onBulkAction,
+  onStorageError,
 }) => {
-  const [filter, setFilter] = useState('');
-  const [typeFilter, setTypeFilter] = useState<CustomerType | 'ALL'>('ALL');
-  const [sortConfig, setSortConfig] = useState<{ field: SortField; direction: SortDirection }>({
-    field: 'name',
-    direction: 'asc',
-  });
+  // The list state lives in the URL, so it survives leaving the list and a copied link opens the same list
+  const [initialState] = useState(() => decodeListState(window.location.search));
+  const [filter, setFilter] = useState(initialState.query);
+  // Filtering keeps the tree unless the user asks for a flat list
+  const [layout, setLayout] = useState<ListLayout>(initialState.layout);
+  const [sortConfig, setSortConfig] = useState<SortConfig>(initialState.sort);
   
-  // Track expanded parent rows
-  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  // Track expanded parent rows. While a search is active every path to a match starts open,
+  // so the rows the user closed are tracked instead.
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(() => new Set(initialState.expandedIds));
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => new Set(initialState.collapsedIds));
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  // Selection survives paging and filtering, so customers from several searches can be acted on together
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkDialog, setBulkDialog] = useState<BulkDialogKind | null>(null);
 
   // Pagination State
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialState.page);
   const ITEMS_PER_PAGE = 10;
 
-  // Determine if we are in Hierarchy Mode (Tree view) or Flat Mode (Search/Filter view)
-  const isHierarchyMode = !filter && typeFilter === 'ALL';
+  const isHierarchyMode = layout === 'TREE';
+  const query = useMemo(() => parseQuery(filter), [filter]);
+  const isFiltered = query.terms.length > 0;
+  const searchText = getSearchText(query);
+  // `customers` changes whenever the index does, so it keys the lookup too
+  const textHits = useMemo(
+    () => (searchText ? searchIndex.search(searchText) : null),
+    [searchIndex, searchText, customers]
+  );
+
+  const listState: ListViewState = {
+    query: filter,
+    layout,
+    sort: sortConfig,
+    page: currentPage,
+    expandedIds: [...expandedIds],
+    collapsedIds: [...collapsedIds],
+  };
+  const search = encodeListState(listState, window.location.search);
 
-  // Reset to page 1 when filters change
+  // Replace rather than push, so the back button leaves the list instead of stepping through every keystroke
   useEffect(() => {
+    if (search !== window.location.search) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [search]);
+
+  // Changing what is shown starts again on page 1; a new search also reopens every path to a match.
+  // Typing words ranks by best match unless the user picked another order.
+  const handleFilterChange = (value: string) => {
+    const hasText = !!getSearchText(parseQuery(value));
+    const isDefaultSort = sortConfig.field === DEFAULT_LIST_STATE.sort.field && sortConfig.direction === DEFAULT_LIST_STATE.sort.direction;
+    if (hasText && !searchText && isDefaultSort) setSortConfig({ field: 'relevance', direction: 'asc' });
+    if (!hasText && sortConfig.field === 'relevance') setSortConfig(DEFAULT_LIST_STATE.sort);
+    setFilter(value);
+    setCollapsedIds(new Set());
     setCurrentPage(1);
-  }, [filter, typeFilter, sortConfig]);
+  };
+
+  const handleLayoutChange = (next: ListLayout) => {
+    setLayout(next);
+    setCurrentPage(1);
+  };
+
+  const applyListState = (state: ListViewState) => {
+    setFilter(state.query);
+    setLayout(state.layout);
+    setSortConfig(state.sort);
+    setExpandedIds(new Set(state.expandedIds));
+    setCollapsedIds(new Set(state.collapsedIds));
+    setCurrentPage(state.page);
+  };
+
+  const isExpanded = (id: string) => (isFiltered ? !collapsedIds.has(id) : expandedIds.has(id));
 
   const toggleExpand = (id: string) => {
-    setExpandedIds(prev => {
+    const update = (prev: Set<string>) => {
       const next = new Set(prev);
       if (next.has(id)) next.delete(id);
       else next.add(id);
       return next;
-    });
+    };
+    if (isFiltered) setCollapsedIds(update);
+    else setExpandedIds(update);
   };
 
   const handleSort = (field: SortField) => {
@@ -53,15 +144,21 @@ export const CustomerList: React.FC<CustomerListProps> = ({
       field,
       direction: prev.field === field && prev.direction === 'asc' ? 'desc' : 'asc',
     }));
+    setCurrentPage(1);
   };
 
   // 1. Process Data based on Mode
-  const { visibleItems, totalItems } = useMemo(() => {
-    let roots: Customer[] = [];
-    let childrenMap = new Map<string, Customer[]>();
+  // `exportItems` is the whole current set in display order, ignoring pagination and expansion.
+  // `contextIds` are ancestors shown only to place a match in the tree.
+  const { visibleItems, totalItems, exportItems, contextIds, childrenMap } = useMemo(() => {
+    // Search score per row; in the tree an ancestor ranks as high as its best match
+    const rank = new Map<string, number>();
 
     // Common sorting function
     const sorter = (a: Customer, b: Customer) => {
+      if (sortConfig.field === 'relevance') {
+        return (rank.get(b.id) || 0) - (rank.get(a.id) || 0) || a.name.localeCompare(b.name);
+      }
       const aValue = a[sortConfig.field].toString().toLowerCase();
       const bValue = b[sortConfig.field].toString().toLowerCase();
       if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
@@ -69,21 +166,27 @@ export const CustomerList: React.FC<CustomerListProps> = ({
       return 0;
     };
 
+    const matches = createQueryMatcher(query, customers, searchIndex);
+    const matched = isFiltered ? customers.filter(matches) : customers;
+    textHits?.forEach((hit, id) => rank.set(id, hit.score));
+
     if (isHierarchyMode) {
       // HIERARCHY MODE:
-      // Roots = All Parents AND Independent Directs (parentId is null/undefined)
-      // Children = Directs with a parentId
-      const allRoots = customers.filter(c => !c.parentId);
-      const allChildren = customers.filter(c => c.parentId);
-
-      // Group children
-      allChildren.forEach(child => {
-        if (child.parentId) {
-          const list = childrenMap.get(child.parentId) || [];
-          list.push(child);
-          childrenMap.set(child.parentId, list);
-        }
-      });
+      // Roots = customers without a parent (or whose parent is not in the list)
+      // Children = customers with a parentId, at any depth
+      // A search keeps the matches and the ancestors that lead to them
+      const matchedIds = new Set(matched.map(c => c.id));
+      const shownIds = new Set(matchedIds);
+      if (isFiltered) {
+        matched.forEach(c => getAncestors(customers, c.id).forEach(a => {
+          shownIds.add(a.id);
+          rank.set(a.id, Math.max(rank.get(a.id) || 0, rank.get(c.id) || 0));
+        }));
+      }
+      const shown = isFiltered ? customers.filter(c => shownIds.has(c.id)) : customers;
+
+      const allRoots = shown.filter(c => !c.parentId || !shownIds.has(c.parentId));
+      const childrenMap = getChildrenMap<Customer>(shown);
 
       // Sort roots
       allRoots.sort(sorter);
@@ -92,38 +195,35 @@ export const CustomerList: React.FC<CustomerListProps> = ({
       const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
       const paginatedRoots = allRoots.slice(startIndex, startIndex + ITEMS_PER_PAGE);
 
-      // Build the display list (Roots + Expanded Children)
-      const displayList: Customer[] = [];
-      paginatedRoots.forEach(root => {
-        displayList.push(root);
-        if (expandedIds.has(root.id)) {
-          const kids = childrenMap.get(root.id) || [];
-          kids.sort(sorter); // Sort children too
-          displayList.push(...kids);
-        }
-      });
+      // Walks a subtree depth-first; `expandedOnly` stops at collapsed rows. `seen` guards against looping links.
+      const flatten = (customer: Customer, depth: number, expandedOnly: boolean, out: ListRow[], seen: Set<string>) => {
+        if (seen.has(customer.id)) return;
+        seen.add(customer.id);
+        out.push({ customer, depth });
+        if (expandedOnly && !isExpanded(customer.id)) return;
+        [...(childrenMap.get(customer.id) || [])].sort(sorter).forEach(child => flatten(child, depth + 1, expandedOnly, out, seen));
+      };
 
-      return { visibleItems: displayList, totalItems: allRoots.length };
+      // Build the display list (Roots + Expanded descendants)
+      const displayList: ListRow[] = [];
+      const displaySeen = new Set<string>();
+      paginatedRoots.forEach(root => flatten(root, 0, true, displayList, displaySeen));
 
-    } else {
-      // FLAT MODE (Search/Filter active):
-      let result = [...customers];
-
-      // Filter by text
-      if (filter) {
-        const lowerFilter = filter.toLowerCase();
-        result = result.filter(
-          (c) =>
-            c.name.toLowerCase().includes(lowerFilter) ||
-            c.accountNumber.toLowerCase().includes(lowerFilter) ||
-            c.addresses.some(a => (a.street || '').toLowerCase().includes(lowerFilter) || a.city.toLowerCase().includes(lowerFilter))
-        );
-      }
+      const exportRows: ListRow[] = [];
+      const exportSeen = new Set<string>();
+      allRoots.forEach(root => flatten(root, 0, false, exportRows, exportSeen));
 
-      // Filter by Type
-      if (typeFilter !== 'ALL') {
-        result = result.filter((c) => c.type === typeFilter);
-      }
+      return {
+        visibleItems: displayList,
+        totalItems: allRoots.length,
+        exportItems: exportRows.map(r => r.customer).filter(c => matchedIds.has(c.id)),
+        contextIds: new Set([...shownIds].filter(id => !matchedIds.has(id))),
+        childrenMap,
+      };
+
+    } else {
+      // FLAT MODE:
+      const result = [...matched];
 
       // Sort
       result.sort(sorter);
@@ -132,47 +232,92 @@ export const CustomerList: React.FC<CustomerListProps> = ({
       const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
       const paginatedResult = result.slice(startIndex, startIndex + ITEMS_PER_PAGE);
 
-      return { visibleItems: paginatedResult, totalItems: result.length };
+      return {
+        visibleItems: paginatedResult.map(customer => ({ customer, depth: 0 })),
+        totalItems: result.length,
+        exportItems: result,
+        contextIds: new Set<string>(),
+        childrenMap: new Map<string, Customer[]>(),
+      };
     }
-  }, [customers, filter, typeFilter, sortConfig, currentPage, expandedIds, isHierarchyMode]);
+  }, [customers, searchIndex, textHits, query, isFiltered, sortConfig, currentPage, expandedIds, collapsedIds, isHierarchyMode]);
 
 
   // Pagination Logic Helpers
   const totalPages = Math.ceil(totalItems / ITEMS_PER_PAGE);
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
 
-  // Helper to count children for badge
-  const getChildCount = (parentId: string) => customers.filter(c => c.parentId === parentId).length;
+  // A shared link or a delete can leave the page past the end
+  useEffect(() => {
+    if (currentPage > Math.max(totalPages, 1)) setCurrentPage(Math.max(totalPages, 1));
+  }, [currentPage, totalPages]);
+
+  const exportCustomers = (items: Customer[], format: ExportFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(customersToCsv(items, customers), `customers_${date}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(customersToJson(items), `customers_${date}.json`, 'application/json');
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    exportCustomers(exportItems, format);
+    setIsExportMenuOpen(false);
+  };
+
+  // Selected customers in display order; ones hidden by the current filter follow, and deleted ones drop out
+  const selectedCustomers = useMemo(() => {
+    const shown = exportItems.filter(c => selectedIds.has(c.id));
+    const shownIds = new Set(shown.map(c => c.id));
+    return [...shown, ...customers.filter(c => selectedIds.has(c.id) && !shownIds.has(c.id))];
+  }, [customers, exportItems, selectedIds]);
+  const hiddenSelectedCount = selectedCustomers.length - exportItems.filter(c => selectedIds.has(c.id)).length;
+
+  const pageIds = visibleItems.map(r => r.customer.id).filter(id => !contextIds.has(id));
+  const isPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.has(id));
+  const isSomeOfPageSelected = pageIds.some(id => selectedIds.has(id));
+  const areAllResultsSelected = exportItems.length > 0 && exportItems.every(c => selectedIds.has(c.id));
+
+  const setSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  // Helper to count children for badge; a search counts only the sub-accounts it shows
+  const getChildCount = (parentId: string) => childrenMap.get(parentId)?.length || 0;
 
   return (
     <div className="bg-white shadow rounded-lg overflow-hidden flex flex-col h-full">
       {/* Toolbar */}
       <div className="p-5 border-b border-gray-200 bg-gray-50 sm:flex sm:items-center sm:justify-between">
         <div className="flex-1 min-w-0 flex items-center space-x-4">
-          <div className="relative rounded-md shadow-sm max-w-xs w-full">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <Search className="h-5 w-5 text-gray-400" />
-            </div>
-            <input
-              type="text"
-              className="focus:ring-blue-500 focus:border-blue-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md bg-white text-black"
-              placeholder="Search customers..."
-              value={filter}
-              onChange={(e) => setFilter(e.target.value)}
-            />
+          <QuerySearchInput value={filter} onChange={handleFilterChange} customers={customers} errors={query.errors} />
+
+          <div className="inline-flex rounded-md shadow-sm self-start" role="group" aria-label="Layout">
+            <button
+              type="button"
+              onClick={() => handleLayoutChange('TREE')}
+              title="Show the hierarchy"
+              className={`inline-flex items-center px-3 py-2 border border-gray-300 rounded-l-md text-sm font-medium ${isHierarchyMode ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              <ListTree className="h-4 w-4 mr-1" /> Tree
+            </button>
+            <button
+              type="button"
+              onClick={() => handleLayoutChange('FLAT')}
+              title="Show a flat, sortable list"
+              className={`-ml-px inline-flex items-center px-3 py-2 border border-gray-300 rounded-r-md text-sm font-medium ${!isHierarchyMode ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              <List className="h-4 w-4 mr-1" /> Flat
+            </button>
           </div>
-          
-          <select
-            className="mt-1 block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md bg-white text-black"
-            value={typeFilter}
-            onChange={(e) => setTypeFilter(e.target.value as any)}
-          >
-            <option value="ALL">All Types</option>
-            <option value={CustomerType.DIRECT}>Direct Only</option>
-            <option value={CustomerType.PARENT}>Parent Only</option>
-          </select>
         </div>
         <div className="mt-3 sm:mt-0 sm:ml-4 flex gap-2">
+            <SavedViewsMenu state={listState} onApply={applyListState} onStorageError={onStorageError} />
             <button
                 type="button"
                 onClick={onImport}
@@ -181,17 +326,128 @@ export const CustomerList: React.FC<CustomerListProps> = ({
                 <Upload className="h-4 w-4 mr-2" />
                 Import
             </button>
+            <div className="relative">
+                <button
+                    type="button"
+                    onClick={() => setIsExportMenuOpen(open => !open)}
+                    disabled={exportItems.length === 0}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                </button>
+                {isExportMenuOpen && (
+                    <div className="absolute right-0 z-10 mt-1 w-56 bg-white shadow-lg rounded-md py-1 ring-1 ring-black ring-opacity-5">
+                        <button
+                            type="button"
+                            onClick={() => handleExport('csv')}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                            CSV <span className="text-xs text-gray-500">(import columns)</span>
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => handleExport('json')}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                            JSON <span className="text-xs text-gray-500">(all fields)</span>
+                        </button>
+                    </div>
+                )}
+            </div>
             <span className="text-sm text-gray-500 self-center whitespace-nowrap">
-                {isHierarchyMode ? `${totalItems} accounts` : `${totalItems} results`}
+                {isFiltered ? `${exportItems.length} results` : `${totalItems} accounts`}
+                {searchText && (sortConfig.field === 'relevance' ? (
+                    <span className="block text-xs text-gray-400">best match first</span>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={() => handleSort('relevance')}
+                        className="block text-xs text-blue-600 hover:text-blue-800"
+                    >
+                        Sort by best match
+                    </button>
+                ))}
             </span>
         </div>
       </div>
 
+      {/* Bulk actions for the selected rows */}
+      {selectedCustomers.length > 0 && (
+        <div className="px-5 py-3 border-b border-blue-100 bg-blue-50 flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-blue-900 mr-2">
+            {selectedCustomers.length} selected
+            {hiddenSelectedCount > 0 && <span className="font-normal text-blue-700"> ({hiddenSelectedCount} not shown by the current search)</span>}
+          </span>
+          {([
+            { kind: 'DELETE', label: 'Move to Trash', icon: <Trash2 className="h-4 w-4 mr-1" /> },
+            { kind: 'SET_VIP', label: 'VIP', icon: <Crown className="h-4 w-4 mr-1" /> },
+            { kind: 'ASSIGN_PARENT', label: 'Assign to Parent', icon: <Link2 className="h-4 w-4 mr-1" /> },
+            { kind: 'DETACH', label: 'Detach', icon: <Unlink className="h-4 w-4 mr-1" /> },
+            { kind: 'EXPORT', label: 'Export', icon: <Download className="h-4 w-4 mr-1" /> },
+          ] as { kind: BulkDialogKind; label: string; icon: React.ReactNode }[]).map(({ kind, label, icon }) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => setBulkDialog(kind)}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              {icon}
+              {label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setSelectedIds(new Set())}
+            className="ml-auto inline-flex items-center text-sm text-blue-700 hover:text-blue-900"
+          >
+            <X className="h-4 w-4 mr-1" /> Clear selection
+          </button>
+        </div>
+      )}
+
+      {/* Offer to extend a full page selection to every matching customer */}
+      {isPageSelected && exportItems.length > pageIds.length && (
+        <div className="px-5 py-2 border-b border-gray-200 bg-gray-50 text-sm text-gray-700 text-center">
+          {areAllResultsSelected ? (
+            <>All {exportItems.length} {isHierarchyMode ? 'customers' : 'matching customers'} are selected. </>
+          ) : (
+            <>
+              All {pageIds.length} customers on this page are selected.{' '}
+              <button type="button" onClick={() => setSelected(exportItems.map(c => c.id), true)} className="font-medium text-blue-600 hover:text-blue-800">
+                Select all {exportItems.length} {isHierarchyMode ? 'customers' : 'matching customers'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {bulkDialog && (
+        <BulkActionDialog
+          kind={bulkDialog}
+          selected={selectedCustomers}
+          allCustomers={customers}
+          onApply={(action) => onBulkAction(selectedCustomers.map(c => c.id), action)}
+          onExport={(format) => exportCustomers(selectedCustomers, format)}
+          onClose={() => setBulkDialog(null)}
+        />
+      )}
+
       {/* Table */}
       <div className="overflow-x-auto flex-1">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              <th className="pl-6 pr-2 py-3 w-10">
+                <input
+                  type="checkbox"
+                  aria-label="Select all on this page"
+                  checked={isPageSelected}
+                  ref={(el) => { if (el) el.indeterminate = isSomeOfPageSelected && !isPageSelected; }}
+                  onChange={() => setSelected(pageIds, !isPageSelected)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+              </th>
               <th className="px-6 py-3 w-10"></th> {/* Expand/Collapse Column */}
               <th
                 scope="col"
@@ -230,36 +486,55 @@ export const CustomerList: React.FC<CustomerListProps> = ({
           <tbody className="bg-white divide-y divide-gray-200">
             {visibleItems.length === 0 ? (
                 <tr>
-                    <td colSpan={5} className="px-6 py-10 text-center text-gray-500">
+                    <td colSpan={6} className="px-6 py-10 text-center text-gray-500">
                         No customers found matching your criteria.
                     </td>
                 </tr>
             ) : (
-                visibleItems.map((customer) => {
+                visibleItems.map(({ customer, depth }) => {
                 const primaryContact = customer.contacts.find((c) => c.isPrimary);
                 const primaryAddress = customer.addresses.find(a => a.isPrimary) || customer.addresses[0];
                 const addrDisplay = primaryAddress 
                     ? (primaryAddress.street || `${primaryAddress.latitude}, ${primaryAddress.longitude}`) + `, ${primaryAddress.city}`
                     : 'No Address';
                 
-                // Hierarchy Logic
-                const isChild = !!customer.parentId && isHierarchyMode;
-                const childCount = isHierarchyMode && !isChild ? getChildCount(customer.id) : 0;
-                const isExpanded = expandedIds.has(customer.id);
+                // Hierarchy Logic: any row may have sub-accounts of its own
+                const isChild = depth > 0;
+                const childCount = isHierarchyMode ? getChildCount(customer.id) : 0;
+                const isRowExpanded = isExpanded(customer.id);
                 const hasChildren = childCount > 0;
+                const isContext = contextIds.has(customer.id);
+
+                // Words the search matched, and a matching address or contact the row does not already show
+                const hitTerms = textHits?.get(customer.id)?.terms;
+                const shownText = [customer.name, customer.accountNumber, ...(customer.accountAliases || []), addrDisplay, primaryContact?.name, primaryContact?.email]
+                    .join('\n')
+                    .toLowerCase();
+                const hiddenMatch = hitTerms
+                    ? searchIndex.getMatchedFields(customer.id, hitTerms).find(f => MATCH_LABELS[f.field] && !shownText.includes(f.text.toLowerCase()))
+                    : undefined;
 
                 return (
                     <tr 
                         key={customer.id} 
-                        className={`transition-colors ${isChild ? 'bg-gray-50' : 'hover:bg-gray-50'} ${isExpanded ? 'bg-blue-50/30' : ''}`}
+                        className={`transition-colors ${isChild ? 'bg-gray-50' : 'hover:bg-gray-50'} ${isRowExpanded ? 'bg-blue-50/30' : ''} ${selectedIds.has(customer.id) ? '!bg-blue-50' : ''} ${isContext ? 'opacity-60' : ''}`}
                     >
+                    <td className="pl-6 pr-2 py-4">
+                        <input
+                            type="checkbox"
+                            aria-label={`Select ${customer.name}`}
+                            checked={selectedIds.has(customer.id)}
+                            onChange={(e) => setSelected([customer.id], e.target.checked)}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                    </td>
                     <td className="px-2 py-4 whitespace-nowrap text-right">
                         {!isChild && hasChildren && (
                             <button 
                                 onClick={() => toggleExpand(customer.id)}
                                 className="p-1 rounded-full text-gray-400 hover:text-blue-600 hover:bg-blue-100 transition-colors"
                             >
-                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                {isRowExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
                             </button>
                         )}
                          {isChild && (
@@ -269,44 +544,76 @@ export const CustomerList: React.FC<CustomerListProps> = ({
                          )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center">
+                        {/* Deeper levels are indented, with their own expand toggle */}
+                        <div className="flex items-center" style={{ paddingLeft: `${Math.max(0, depth - 1) * 2}rem` }}>
+                            {isChild && (
+                                <div className="w-6 mr-2 flex-shrink-0">
+                                    {hasChildren && (
+                                        <button 
+                                            onClick={() => toggleExpand(customer.id)}
+                                            className="p-1 rounded-full text-gray-400 hover:text-blue-600 hover:bg-blue-100 transition-colors"
+                                        >
+                                            {isRowExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                        </button>
+                                    )}
+                                </div>
+                            )}
                             <div className={`flex-shrink-0 h-10 w-10 rounded-full flex items-center justify-center ${customer.type === CustomerType.PARENT ? 'bg-purple-100 text-purple-600' : 'bg-blue-100 text-blue-600'}`}>
                                 {customer.type === CustomerType.PARENT ? <Users className="h-5 w-5" /> : <Building className="h-5 w-5" />}
                             </div>
                             <div className="ml-4">
                                 <div className="flex items-center gap-2">
-                                    <span className={`text-sm font-medium ${isChild ? 'text-gray-700' : 'text-gray-900'}`}>
-                                        {customer.name}
-                                    </span>
+                                    <RouteLink
+                                        to={{ name: 'CUSTOMER', id: customer.id }}
+                                        onNavigate={() => onView(customer.id)}
+                                        className={`text-sm font-medium hover:text-blue-600 hover:underline ${isChild ? 'text-gray-700' : 'text-gray-900'}`}
+                                    >
+                                        <Highlight text={customer.name} terms={hitTerms} />
+                                    </RouteLink>
                                     {customer.isVip && <Crown className="w-3 h-3 text-yellow-500" />}
                                     
                                     {/* Sub-account Badge */}
-                                    {!isChild && hasChildren && (
+                                    {hasChildren && (
                                         <span 
                                             onClick={(e) => { e.stopPropagation(); toggleExpand(customer.id); }}
                                             className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 cursor-pointer hover:bg-blue-200"
                                         >
-                                            {childCount} {childCount === 1 ? 'Site' : 'Sites'}
+                                            {childCount} {childCount === 1 ? 'Sub-account' : 'Sub-accounts'}
                                         </span>
                                     )}
                                 </div>
+                                {/* Search results lose the tree, so show where the customer sits */}
+                                {!isHierarchyMode && customer.parentId && (
+                                    <div className="text-xs text-gray-400">in {formatHierarchyPath(customers, customer.parentId)}</div>
+                                )}
                                 <div className="text-sm text-gray-500 flex items-center" title={addrDisplay}>
                                     <MapPin className="h-3 w-3 mr-1" /> 
-                                    <span className="truncate max-w-xs">{addrDisplay}</span>
+                                    <span className="truncate max-w-xs"><Highlight text={addrDisplay} terms={hitTerms} /></span>
                                 </div>
+                                {hiddenMatch && (
+                                    <div className="text-xs text-gray-500 truncate max-w-xs" title={hiddenMatch.context}>
+                                        {MATCH_LABELS[hiddenMatch.field]}: <Highlight text={hiddenMatch.context} terms={hitTerms} />
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                         <span className="text-sm text-gray-900 font-mono bg-gray-100 px-2 py-1 rounded">
-                            {customer.accountNumber}
+                            <Highlight text={customer.accountNumber} terms={hitTerms} />
                         </span>
+                        {/* Account numbers of duplicates merged into this customer */}
+                        {customer.accountAliases && customer.accountAliases.length > 0 && (
+                            <div className="text-xs text-gray-400 mt-1" title="Former account numbers">
+                                also <Highlight text={customer.accountAliases.join(', ')} terms={hitTerms} />
+                            </div>
+                        )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                         {primaryContact ? (
                         <div className="text-sm">
-                            <div className="font-medium text-gray-900">{primaryContact.name}</div>
-                            <div className="text-gray-500">{primaryContact.email}</div>
+                            <div className="font-medium text-gray-900"><Highlight text={primaryContact.name} terms={hitTerms} /></div>
+                            <div className="text-gray-500"><Highlight text={primaryContact.email} terms={hitTerms} /></div>
                         </div>
                         ) : (
                         <span className="text-sm text-red-500 font-medium">Missing Primary</span>
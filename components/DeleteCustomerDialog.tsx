@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { ChildDisposition, Customer } from '../types';
+import { planDelete } from '../services/customerDelete';
+import { getDescendantIds, getHierarchyPaths } from '../services/hierarchy';
+import { AlertTriangle, Trash2, X } from 'lucide-react';
+
+interface DeleteCustomerDialogProps {
+  customer: Customer;
+  allCustomers: Customer[];
+  // Returns an error message when the delete could not be applied
+  onConfirm: (dispositions: Record<string, ChildDisposition>) => string | null;
+  onCancel: () => void;
+}
+
+type Action = ChildDisposition['action'];
+
+// A row's choice while editing; `parentId` is empty until a parent is picked for a move
+interface Choice {
+  action: Action;
+  parentId: string;
+}
+
+const ACTION_LABELS: Record<Action, string> = {
+  STANDALONE: 'Make standalone',
+  MOVE: 'Move to another parent',
+  DELETE: 'Delete with parent',
+};
+
+export const DeleteCustomerDialog: React.FC<DeleteCustomerDialogProps> = ({ customer, allCustomers, onConfirm, onCancel }) => {
+  const children = useMemo(
+    () => allCustomers.filter(c => c.parentId === customer.id).sort((a, b) => a.name.localeCompare(b.name)),
+    [allCustomers, customer.id]
+  );
+
+  // Moving children up to the deleted customer's own parent is the natural default for a move
+  const defaultParentId = customer.parentId || '';
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(children.map(c => [c.id, { action: 'STANDALONE', parentId: defaultParentId }]))
+  );
+  const [bulk, setBulk] = useState<Choice>({ action: 'STANDALONE', parentId: defaultParentId });
+  const [error, setError] = useState<string | null>(null);
+
+  const paths = useMemo(() => getHierarchyPaths(allCustomers), [allCustomers]);
+  const byPath = (a: Customer, b: Customer) => (paths.get(a.id) || '').localeCompare(paths.get(b.id) || '');
+
+  // Parents a child may move to: not the customer being deleted, and not the child or its own sub-accounts.
+  // Moving every child at once also rules out the children themselves.
+  const parentOptionsFor = (childId: string | null) => {
+    const blocked = new Set([customer.id, ...(childId ? [childId, ...getDescendantIds(allCustomers, childId)] : getDescendantIds(allCustomers, customer.id))]);
+    return allCustomers.filter(c => !blocked.has(c.id)).sort(byPath).map(c => ({ id: c.id, label: paths.get(c.id) || c.name }));
+  };
+
+  const unpicked = children.filter(c => choices[c.id].action === 'MOVE' && !choices[c.id].parentId);
+  const dispositions: Record<string, ChildDisposition> = Object.fromEntries(
+    children
+      .filter(c => !(choices[c.id].action === 'MOVE' && !choices[c.id].parentId))
+      .map(c => {
+        const { action, parentId } = choices[c.id];
+        return [c.id, action === 'MOVE' ? { action, parentId } : { action }];
+      })
+  );
+  const plan = planDelete(allCustomers, customer.id, dispositions);
+  const problems = [...unpicked.map(c => `Choose a parent for "${c.name}".`), ...plan.errors];
+
+  const setChoice = (childId: string, change: Partial<Choice>) => {
+    setChoices(prev => ({ ...prev, [childId]: { ...prev[childId], ...change } }));
+  };
+
+  const applyToAll = () => {
+    setChoices(Object.fromEntries(children.map(c => [c.id, { ...bulk }])));
+  };
+
+  const handleConfirm = () => {
+    if (problems.length > 0) return;
+    setError(onConfirm(dispositions));
+  };
+
+  const renderChoice = (choice: Choice, onChange: (change: Partial<Choice>) => void, getOptions: () => { id: string; label: string }[], label: string) => (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <select
+        aria-label={`${label}: action`}
+        value={choice.action}
+        onChange={(e) => onChange({ action: e.target.value as Action })}
+        className="block pl-3 pr-10 py-1.5 text-sm border-gray-300 rounded-md bg-white text-black"
+      >
+        {(Object.keys(ACTION_LABELS) as Action[]).map(action => (
+          <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+        ))}
+      </select>
+      {choice.action === 'MOVE' && (
+        <select
+          aria-label={`${label}: new parent`}
+          value={choice.parentId}
+          onChange={(e) => onChange({ parentId: e.target.value })}
+          className="block flex-1 min-w-0 pl-3 pr-10 py-1.5 text-sm border-gray-300 rounded-md bg-white text-black"
+        >
+          <option value="">-- Choose a parent --</option>
+          {getOptions().map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+        </select>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-gray-500/75 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 flex items-center">
+              <Trash2 className="h-5 w-5 mr-2 text-red-500" />
+              Delete "{customer.name}"
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {children.length > 0
+                ? `This customer has ${children.length} linked sub-account${children.length === 1 ? '' : 's'}. Choose what happens to each one.`
+                : 'The customer will move to the Trash. You can restore it from there.'}
+            </p>
+          </div>
+          <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-6">
+          {children.length > 1 && (
+            <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+              <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">All Sub-accounts</h3>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <div className="flex-1 min-w-0">{renderChoice(bulk, change => setBulk(prev => ({ ...prev, ...change })), () => parentOptionsFor(null), 'All sub-accounts')}</div>
+                <button
+                  type="button"
+                  onClick={applyToAll}
+                  className="inline-flex items-center justify-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Apply to All
+                </button>
+              </div>
+            </div>
+          )}
+
+          {children.length > 0 && (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {children.map(child => {
+                const below = getDescendantIds(allCustomers, child.id).size;
+                return (
+                  <li key={child.id} className="p-3 space-y-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{child.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {child.accountNumber}
+                        {below > 0 && ` · ${below} sub-account${below === 1 ? '' : 's'} below, which stay with it`}
+                      </p>
+                    </div>
+                    {renderChoice(choices[child.id], change => setChoice(child.id, change), () => parentOptionsFor(child.id), child.name)}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Preview of the result */}
+          <div>
+            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Result</h3>
+            <ul className="text-sm text-gray-700 space-y-1 list-disc pl-5">
+              <li>
+                Moved to the Trash ({plan.trashed.length}): {plan.trashed.map(c => c.name).join(', ')}
+              </li>
+              {plan.standalone.length > 0 && (
+                <li>Standalone ({plan.standalone.length}): {plan.standalone.map(c => c.name).join(', ')}</li>
+              )}
+              {plan.moved.map(({ child, parent }) => (
+                <li key={child.id}>"{child.name}" moves under {paths.get(parent.id)}</li>
+              ))}
+            </ul>
+          </div>
+
+          {(problems.length > 0 || error) && (
+            <div className="rounded-md bg-red-50 p-4 border border-red-200 flex items-start">
+              <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+              <ul className="ml-3 text-sm text-red-700 space-y-1">
+                {problems.map((p, i) => <li key={i}>{p}</li>)}
+                {error && <li>{error}</li>}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={problems.length > 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="h-4 w-4 mr-2" /> Move to Trash
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { Customer, CustomerFormData } from '../types';
+import { findDuplicates } from '../services/duplicates';
+import { MergeCustomers } from './MergeCustomers';
+import { ArrowLeft, CheckCircle, Copy, GitMerge } from 'lucide-react';
+
+interface DuplicatesViewProps {
+  customers: Customer[];
+  // Returns an error message when the merge could not be applied
+  onMerge: (survivorId: string, loserId: string, data: CustomerFormData, baseVersions: Record<string, number>) => string | null;
+  onBack: () => void;
+}
+
+const scoreStyle = (score: number) => {
+  if (score >= 80) return 'bg-red-100 text-red-700';
+  if (score >= 65) return 'bg-amber-100 text-amber-700';
+  return 'bg-gray-100 text-gray-700';
+};
+
+export const DuplicatesView: React.FC<DuplicatesViewProps> = ({ customers, onMerge, onBack }) => {
+  const matches = useMemo(() => findDuplicates(customers), [customers]);
+  const [reviewing, setReviewing] = useState<[string, string] | null>(null);
+
+  // Either record may have been merged away or trashed since the pair was opened
+  const pair = reviewing ? reviewing.map(id => customers.find(c => c.id === id)) : [];
+  if (reviewing && pair[0] && pair[1]) {
+    return (
+      <MergeCustomers
+        key={reviewing.join('|')}
+        first={pair[0]}
+        second={pair[1]}
+        allCustomers={customers}
+        onMerge={(survivorId, loserId, data, baseVersions) => {
+          const error = onMerge(survivorId, loserId, data, baseVersions);
+          if (!error) setReviewing(null);
+          return error;
+        }}
+        onCancel={() => setReviewing(null)}
+      />
+    );
+  }
+
+  const renderSide = (customer: Customer) => (
+    <div className="min-w-0">
+      <p className="text-sm font-medium text-gray-900 truncate" title={customer.name}>{customer.name}</p>
+      <p className="text-xs text-gray-500 font-mono">{customer.accountNumber}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Possible Duplicates</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Customers scored by similar names, matching addresses and shared contact emails and phones.
+          </p>
+        </div>
+        <button
+          onClick={onBack}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" /> Back to List
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {matches.length === 0 ? (
+          <div className="text-center py-12">
+            <CheckCircle className="mx-auto h-10 w-10 text-green-400" />
+            <p className="mt-2 text-gray-500">No likely duplicates found.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {matches.map(({ a, b, score, reasons }) => (
+              <li key={`${a.id}|${b.id}`} className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                <span className={`inline-flex items-center justify-center w-14 flex-shrink-0 px-2 py-1 rounded-full text-xs font-semibold ${scoreStyle(score)}`}>
+                  {score}%
+                </span>
+                <div className="flex-1 min-w-0 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {renderSide(a)}
+                  {renderSide(b)}
+                </div>
+                <ul className="md:w-72 text-xs text-gray-600 space-y-0.5">
+                  {reasons.map(reason => (
+                    <li key={reason} className="flex items-start">
+                      <Copy className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0 text-gray-400" />
+                      <span className="truncate" title={reason}>{reason}</span>
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={() => setReviewing([a.id, b.id])}
+                  className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <GitMerge className="h-4 w-4 mr-2" /> Review & Merge
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { Customer, CustomerType } from '../types';
+import { formatHierarchyPath, getChildrenMap, getDescendantIds } from '../services/hierarchy';
+import { ArrowLeft, AlertTriangle, Building, ChevronDown, ChevronRight, Edit2, Network, Search, Users } from 'lucide-react';
+
+interface HierarchyViewProps {
+  customers: Customer[];
+  // Returns an error message when the move is not allowed
+  onMove: (id: string, parentId: string | null) => string | null;
+  onEdit: (id: string) => void;
+  onBack: () => void;
+}
+
+// Drop target for making the dragged customer standalone
+const STANDALONE = '__standalone__';
+
+export const HierarchyView: React.FC<HierarchyViewProps> = ({ customers, onMove, onEdit, onBack }) => {
+  const [filter, setFilter] = useState('');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const childrenMap = useMemo(() => getChildrenMap<Customer>(customers), [customers]);
+  const byName = (a: Customer, b: Customer) => a.name.localeCompare(b.name);
+
+  // Trees with sub-accounts are drawn as charts; customers on their own are listed together below them
+  const { trees, loners } = useMemo(() => {
+    const listedIds = new Set(customers.map(c => c.id));
+    const roots = customers.filter(c => !c.parentId || !listedIds.has(c.parentId)).sort(byName);
+    // A tree is shown when any customer in it matches the search
+    const term = filter.trim().toLowerCase();
+    const visited = new Set<string>();
+    const matches = (c: Customer): boolean => {
+      if (visited.has(c.id)) return false;
+      visited.add(c.id);
+      return !term
+        || c.name.toLowerCase().includes(term)
+        || c.accountNumber.toLowerCase().includes(term)
+        || (childrenMap.get(c.id) || []).some(matches);
+    };
+    const shown = roots.filter(matches);
+    return {
+      trees: shown.filter(r => childrenMap.has(r.id)),
+      loners: shown.filter(r => !childrenMap.has(r.id)),
+    };
+  }, [customers, childrenMap, filter]);
+
+  const dragging = customers.find(c => c.id === draggingId);
+  // A customer cannot go under itself or its own sub-accounts, and dropping on its current parent does nothing
+  const blockedIds = useMemo(
+    () => (draggingId ? new Set([draggingId, ...getDescendantIds(customers, draggingId)]) : new Set<string>()),
+    [customers, draggingId]
+  );
+  const canDropOn = (targetId: string) => {
+    if (!dragging) return false;
+    if (targetId === STANDALONE) return !!dragging.parentId;
+    return !blockedIds.has(targetId) && dragging.parentId !== targetId;
+  };
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
+  const handleDrop = (targetId: string) => {
+    const customer = dragging;
+    endDrag();
+    if (!customer || !canDropOn(targetId)) return;
+
+    const childCount = childrenMap.get(customer.id)?.length || 0;
+    const carried = childCount > 0 ? `\n\nIts ${childCount} sub-account${childCount === 1 ? '' : 's'} will move with it.` : '';
+    const message = targetId === STANDALONE
+      ? `Make "${customer.name}" a standalone account?${carried}`
+      : `Move "${customer.name}" under ${formatHierarchyPath(customers, targetId)}?${carried}`;
+    if (window.confirm(message)) {
+      setError(onMove(customer.id, targetId === STANDALONE ? null : targetId));
+    }
+  };
+
+  // Drag-over handlers shared by customer cards and the standalone zone
+  const dropProps = (targetId: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!canDropOn(targetId)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTargetId !== targetId) setDropTargetId(targetId);
+    },
+    onDragLeave: () => setDropTargetId(prev => (prev === targetId ? null : prev)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(targetId);
+    },
+  });
+
+  const toggleCollapse = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderCard = (customer: Customer) => {
+    const childCount = childrenMap.get(customer.id)?.length || 0;
+    const isCollapsed = collapsedIds.has(customer.id);
+    const isDropTarget = dropTargetId === customer.id;
+    const isBlocked = !!dragging && !canDropOn(customer.id);
+    return (
+      <div
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', customer.id);
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(customer.id);
+          setError(null);
+        }}
+        onDragEnd={endDrag}
+        {...dropProps(customer.id)}
+        className={`w-56 bg-white border rounded-lg shadow-sm p-3 cursor-grab active:cursor-grabbing transition-colors ${
+          isDropTarget ? 'border-blue-500 ring-2 ring-blue-200 bg-blue-50' : 'border-gray-200'
+        } ${draggingId === customer.id ? 'opacity-50' : ''} ${isBlocked && draggingId !== customer.id ? 'opacity-60' : ''}`}
+      >
+        <div className="flex items-start">
+          <div className={`flex-shrink-0 h-8 w-8 rounded-full flex items-center justify-center ${customer.type === CustomerType.PARENT ? 'bg-purple-100 text-purple-600' : 'bg-blue-100 text-blue-600'}`}>
+            {customer.type === CustomerType.PARENT ? <Users className="h-4 w-4" /> : <Building className="h-4 w-4" />}
+          </div>
+          <div className="ml-2 min-w-0 flex-1">
+            <p className="text-sm font-medium text-gray-900 truncate" title={customer.name}>{customer.name}</p>
+            <p className="text-xs text-gray-500 font-mono">{customer.accountNumber}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onEdit(customer.id)}
+            className="text-gray-400 hover:text-blue-600 p-1 rounded hover:bg-blue-50"
+            title="Edit"
+          >
+            <Edit2 className="h-4 w-4" />
+          </button>
+        </div>
+        {childCount > 0 && (
+          <button
+            type="button"
+            onClick={() => toggleCollapse(customer.id)}
+            className="mt-2 inline-flex items-center text-xs font-medium text-blue-700 hover:text-blue-900"
+          >
+            {isCollapsed ? <ChevronRight className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+            {childCount} {childCount === 1 ? 'Sub-account' : 'Sub-accounts'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Draws a customer above a connector line and a row of its sub-accounts' subtrees
+  const renderTree = (customer: Customer, seen: Set<string>): React.ReactNode => {
+    const children = seen.has(customer.id) ? [] : [...(childrenMap.get(customer.id) || [])].sort(byName);
+    const nextSeen = new Set([...seen, customer.id]);
+    return (
+      <div key={customer.id} className="flex flex-col items-center">
+        {renderCard(customer)}
+        {children.length > 0 && !collapsedIds.has(customer.id) && (
+          <>
+            <div className="w-px h-4 bg-gray-300" />
+            <div className="flex items-start gap-4 border-t border-gray-300">
+              {children.map(child => (
+                <div key={child.id} className="flex flex-col items-center">
+                  <div className="w-px h-4 bg-gray-300" />
+                  {renderTree(child, nextSeen)}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Customer Hierarchy</h1>
+          <p className="text-sm text-gray-500 mt-1">Drag a customer onto another to move it there, together with its sub-accounts.</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" /> Back to List
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+          <p className="ml-3 text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative rounded-md shadow-sm max-w-xs w-full">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            className="focus:ring-blue-500 focus:border-blue-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md bg-white text-black"
+            placeholder="Find a customer..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+        </div>
+        <div
+          {...dropProps(STANDALONE)}
+          className={`flex-1 flex items-center justify-center border-2 border-dashed rounded-lg px-4 py-2 text-sm transition-colors ${
+            dropTargetId === STANDALONE
+              ? 'border-blue-500 bg-blue-50 text-blue-700'
+              : dragging?.parentId ? 'border-gray-400 text-gray-600' : 'border-gray-200 text-gray-400'
+          }`}
+        >
+          Drop here to make a customer standalone
+        </div>
+      </div>
+
+      {trees.length === 0 && loners.length === 0 ? (
+        <div className="bg-white shadow rounded-lg text-center py-12">
+          <Network className="mx-auto h-10 w-10 text-gray-300" />
+          <p className="mt-2 text-gray-500">No customers found.</p>
+        </div>
+      ) : (
+        <>
+          {trees.map(root => (
+            <div key={root.id} className="bg-white shadow rounded-lg p-6 overflow-x-auto">
+              <div className="inline-flex min-w-full justify-center">{renderTree(root, new Set())}</div>
+            </div>
+          ))}
+
+          {loners.length > 0 && (
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-4">
+                Standalone Accounts ({loners.length})
+              </h2>
+              <div className="flex flex-wrap gap-4">
+                {loners.map(customer => <React.Fragment key={customer.id}>{renderCard(customer)}</React.Fragment>)}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { splitWords } from '../services/searchIndex';
+
+interface HighlightProps {
+  text: string;
+  // Indexed words to mark, from a SearchHit
+  terms?: Set<string>;
+}
+
+// Marks the words of `text` that a search matched
+export const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  if (!terms || terms.size === 0 || !text) return <>{text}</>;
+
+  const words = splitWords(text);
+  // Identifiers match run together ("acc1001"), so the whole value is marked
+  if (words.length > 1 && terms.has(words.map(w => w.word).join(''))) {
+    return <mark className="bg-yellow-200 text-inherit rounded-sm">{text}</mark>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  words
+    .filter(w => w.start >= 0 && terms.has(w.word))
+    .forEach(({ start, end }) => {
+      if (start > position) parts.push(text.slice(position, start));
+      parts.push(<mark key={start} className="bg-yellow-200 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+      position = end;
+    });
+  if (parts.length === 0) return <>{text}</>;
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+};
@@ -1,293 +1,272 @@
-import React, { useState, useRef } from 'react';
-import { Customer, CustomerType, Contact, Address } from '../types';
-import { Upload, AlertCircle, CheckCircle, XCircle, FileText, Download, ArrowLeft } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { CollectionMergeMode, Customer, CustomerType, ImportMode, ImportRow, ImportSource } from '../types';
+import { CustomerJsonExport, IMPORT_CSV_HEADERS, JSON_EXPORT_FORMAT, downloadFile, toCsvLine } from '../services/customerExport';
+import { migrateCustomers } from '../services/migrations';
+import { createHierarchyCheck } from '../services/hierarchy';
+import { isAccountNumberUnique, validateCustomer } from '../services/customerRules';
+import { ColumnMapping, importRowsToCsv, mapCustomerObjects, mapRows, suggestMapping } from '../services/importMapping';
+import { parseCsvFile } from '../services/csvImport';
+import { isBlankRecord } from '../services/csvParser';
+import { XlsxWorkbook, openXlsxWorkbook } from '../services/xlsxReader';
+import { ImportAnalysis, ImportOptions, IMPORT_MODE_LABELS, analyzeImportRows, reanalyzeAccounts } from '../services/importAnalysis';
+import { ColumnMapper } from './ColumnMapper';
+import { ImportUpdatePreview } from './ImportUpdatePreview';
+import { ImportErrorGrid } from './ImportErrorGrid';
+import { Upload, AlertCircle, CheckCircle, XCircle, FileText, Download, ArrowLeft, RefreshCw, History } from 'lucide-react';
 
 interface ImportCustomersProps {
   onCancel: () => void;
-  onImport: (customers: Customer[]) => void;
+  onImport: (newCustomers: Customer[], updatedCustomers: Customer[], source: ImportSource) => void;
+  onShowHistory: () => void;
   existingCustomers: Customer[];
   existingParents: Customer[];
-}
-
-interface ImportRow {
-  rowNumber: number;
-  customerName: string;
-  accountNumber: string;
-  address: string;
-  zipCode: string;
-  parentCustomerName: string; // If empty -> Parent, If exists -> Direct
-  contactName: string;
-  contactEmail: string;
-  contactPhone: string;
-  isPrimary: boolean;
-}
-
-interface ProcessedBatch {
-  validCustomers: Customer[];
-  errors: { rowNumber: number; reason: string }[];
+  onStorageError: (message: string) => void;
 }
 
 export const ImportCustomers: React.FC<ImportCustomersProps> = ({
   onCancel,
   onImport,
+  onShowHistory,
   existingCustomers,
   existingParents,
+  onStorageError,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [file, setFile] = useState<File | null>(null);
-  const [processedData, setProcessedData] = useState<ProcessedBatch | null>(null);
-  const [activeTab, setActiveTab] = useState<'VALID' | 'ERRORS'>('VALID');
+  const [processedData, setProcessedData] = useState<ImportAnalysis | null>(null);
+  const [activeTab, setActiveTab] = useState<'VALID' | 'UPDATES' | 'ERRORS'>('VALID');
+  const [options, setOptions] = useState<ImportOptions>({ mode: 'CREATE', collectionMode: 'MERGE' });
+  const [tableData, setTableData] = useState<{ headers: string[]; rows: string[][]; rowNumbers: number[] } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  // Mapped rows behind the current analysis; edits in the error grid update them in place
+  const [importRows, setImportRows] = useState<ImportRow[] | null>(null);
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const [workbook, setWorkbook] = useState<XlsxWorkbook | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState('');
+  const parseAbortRef = useRef<AbortController | null>(null);
+
+  // Stop a running parse when leaving the import screen
+  useEffect(() => () => parseAbortRef.current?.abort(), []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
+      cancelParsing();
       setFile(e.target.files[0]);
       setProcessedData(null);
+      setTableData(null);
+      setImportRows(null);
+      setWorkbook(null);
     }
   };
 
-  // Helper to parse CSV line handling quotes
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let start = 0;
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      if (line[i] === '"') {
-        inQuotes = !inQuotes;
-      } else if (line[i] === ',' && !inQuotes) {
-        result.push(line.substring(start, i).replace(/^"|"$/g, '').trim());
-        start = i + 1;
-      }
-    }
-    result.push(line.substring(start).replace(/^"|"$/g, '').trim());
-    return result;
+  const showFileError = (reason: string) => {
+    setImportRows(null);
+    setProcessedData({ rowCount: 0, validCustomers: [], updates: [], unchangedAccounts: [], errors: [{ rowNumber: 1, reason }] });
+    setActiveTab('ERRORS');
   };
 
-  const processFile = () => {
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const lines = text.split('\n');
-      
-      // Skip header row
-      const dataRows = lines.slice(1).filter(line => line.trim() !== '');
-      
-      const rawRows: ImportRow[] = [];
-      
-      // 1. Parse Raw Data
-      dataRows.forEach((line, index) => {
-        const cols = parseCSVLine(line);
-        // Assuming CSV structure: 
-        // Name, Account#, Address, Zip, ParentName, ContactName, ContactEmail, ContactPhone, IsPrimary
-        if (cols.length >= 7) {
-            rawRows.push({
-                rowNumber: index + 2, // +2 because 0-indexed + 1 for header
-                customerName: cols[0],
-                accountNumber: cols[1],
-                address: cols[2],
-                zipCode: cols[3],
-                parentCustomerName: cols[4],
-                contactName: cols[5],
-                contactEmail: cols[6],
-                contactPhone: cols[7] || '',
-                isPrimary: cols[8]?.toLowerCase() === 'true' || cols[8]?.toLowerCase() === 'yes' || cols[8] === '1'
-            });
+  const isJsonFile = (f: File) => f.name.toLowerCase().endsWith('.json') || f.type === 'application/json';
+  const isXlsxFile = (f: File) =>
+    f.name.toLowerCase().endsWith('.xlsx') || f.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  // Runs one read of the file (or of a workbook sheet) with progress, cancellation and error reporting
+  const runRead = (task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    parseAbortRef.current?.abort();
+    parseAbortRef.current = controller;
+    setParseProgress(0);
+    task(controller.signal)
+      .catch((err: Error) => {
+        if (err.name === 'AbortError' || controller.signal.aborted) return;
+        showFileError(`Could not read ${file?.name || 'the file'}: ${err.message}`);
+      })
+      .finally(() => {
+        if (parseAbortRef.current === controller) {
+          parseAbortRef.current = null;
+          setParseProgress(null);
         }
       });
+  };
 
-      analyzeRows(rawRows);
-    };
-    reader.readAsText(file);
+  // Tabular formats (CSV, Excel) go through column mapping before analysis
+  const showTable = (headers: string[], rows: string[][], rowNumbers: number[]) => {
+    if (headers.length === 0) throw new Error('There is no header row.');
+    setTableData({ headers, rows, rowNumbers });
+    setMapping(suggestMapping(headers));
   };
 
-  const analyzeRows = (rows: ImportRow[]) => {
-    const validCustomers: Customer[] = [];
-    const errors: { rowNumber: number; reason: string }[] = [];
-    
-    // Group by Account Number to handle multiple contacts for same customer OR detect duplicates
-    const groupedByAccount: Record<string, ImportRow[]> = {};
-    
-    rows.forEach(row => {
-        const acc = row.accountNumber;
-        if (!groupedByAccount[acc]) {
-            groupedByAccount[acc] = [];
-        }
-        groupedByAccount[acc].push(row);
-    });
+  const loadSheet = async (book: XlsxWorkbook, sheetName: string, signal: AbortSignal) => {
+    const records = (await book.readSheet(sheetName, setParseProgress)).filter(r => !isBlankRecord(r.values));
+    if (signal.aborted) return;
+    setSelectedSheet(sheetName);
+    const [header, ...rows] = records;
+    showTable((header?.values || []).map(h => h.trim()), rows.map(r => r.values), rows.map(r => r.rowNumber));
+  };
 
-    // Valid Parent Lookup Map (Name -> ID)
-    // Includes existing parents AND parents currently being imported in this batch
-    const parentNameMap = new Map<string, string>();
-    existingParents.forEach(p => parentNameMap.set(p.name.toLowerCase(), p.id));
-
-    // First Pass: Identify and Create Valid PARENT customers from the batch
-    Object.keys(groupedByAccount).forEach(accNum => {
-        const groupRows = groupedByAccount[accNum];
-        // Check if consistent customer name
-        const firstRow = groupRows[0];
-        const isParent = !firstRow.parentCustomerName; // Classification Rule
-
-        if (isParent) {
-            const customerId = `cust_import_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
-            // Optimistically add to map for second pass (Direct customers)
-            if (firstRow.customerName) {
-                parentNameMap.set(firstRow.customerName.toLowerCase(), customerId);
-            }
-        }
+  const readJson = (text: string) => {
+    const parsed = JSON.parse(text);
+    if (parsed && parsed.format === JSON_EXPORT_FORMAT && Array.isArray(parsed.customers)) {
+      analyzeJsonExport(parsed);
+    } else if (Array.isArray(parsed)) {
+      analyzeRows(mapCustomerObjects(parsed, existingCustomers), options);
+    } else {
+      throw new Error('Expected a customer export or an array of customers.');
+    }
+  };
+
+  const processFile = () => {
+    if (!file) return;
+    runRead(async (signal) => {
+      if (isJsonFile(file)) {
+        const text = await file.text();
+        if (!signal.aborted) readJson(text);
+      } else if (isXlsxFile(file)) {
+        const book = await openXlsxWorkbook(file);
+        if (signal.aborted) return;
+        setWorkbook(book);
+        await loadSheet(book, book.sheetNames[0], signal);
+      } else {
+        const { headers, rows } = await parseCsvFile(file, setParseProgress, signal);
+        // Data starts on file row 2, after the header
+        showTable(headers, rows, rows.map((_, index) => index + 2));
+      }
     });
+  };
 
-    // Second Pass: Validate and Build Objects
-    Object.keys(groupedByAccount).forEach(accNum => {
-        const groupRows = groupedByAccount[accNum];
-        const firstRow = groupRows[0];
-        const rowNumbers = groupRows.map(r => r.rowNumber).join(', ');
+  const handleSheetChange = (sheetName: string) => {
+    if (!workbook) return;
+    runRead(signal => loadSheet(workbook, sheetName, signal));
+  };
 
-        // 1. Basic Validation
-        if (!firstRow.customerName) {
-            groupRows.forEach(r => errors.push({ rowNumber: r.rowNumber, reason: 'Missing Customer Name' }));
-            return;
-        }
+  const cancelParsing = () => {
+    parseAbortRef.current?.abort();
+    parseAbortRef.current = null;
+    setParseProgress(null);
+  };
 
-        // 2. Check for Name conflict within group
-        const uniqueNames = new Set(groupRows.map(r => r.customerName));
-        if (uniqueNames.size > 1) {
-             groupRows.forEach(r => errors.push({ 
-                 rowNumber: r.rowNumber, 
-                 reason: `Duplicate Account Number '${accNum}' used for different customer names.` 
-             }));
-             return;
-        }
+  const handleConfirmMapping = () => {
+    if (!tableData) return;
+    analyzeRows(mapRows(tableData.rows, mapping, tableData.rowNumbers), options);
+  };
 
-        // 3. Check Account Uniqueness against DB
-        const isDuplicateInDb = existingCustomers.some(c => c.accountNumber === accNum);
-        if (isDuplicateInDb) {
-            groupRows.forEach(r => errors.push({ 
-                rowNumber: r.rowNumber, 
-                reason: `Account Number '${accNum}' already exists in the system.` 
-            }));
-            return;
-        }
+  const analyzeRows = (rows: ImportRow[], options: ImportOptions) => {
+    const analysis = analyzeImportRows(rows, existingCustomers, existingParents, options);
+    setImportRows(rows);
+    setProcessedData(analysis);
+    setActiveTab(analysis.validCustomers.length > 0 ? 'VALID' : analysis.updates.length > 0 ? 'UPDATES' : 'ERRORS');
+  };
 
-        // 4. Contact Validation
-        let contacts: Contact[] = groupRows.map((row, idx) => ({
-            id: `cont_imp_${accNum}_${idx}`,
-            name: row.contactName,
-            email: row.contactEmail,
-            phone: row.contactPhone,
-            isPrimary: row.isPrimary
-        }));
-
-        const validContacts = contacts.filter(c => c.name && c.email);
-        if (validContacts.length !== contacts.length) {
-             groupRows.forEach(r => {
-                 if (!r.contactName || !r.contactEmail) {
-                     errors.push({ rowNumber: r.rowNumber, reason: 'Missing Contact Name or Email.' });
-                 }
-             });
-             return;
-        }
+  // Re-checks the edited row's account group (and the one it left, if the account number changed)
+  const handleRowEdit = (edited: ImportRow) => {
+    if (!importRows || !processedData) return;
+    const previous = importRows.find(r => r.rowNumber === edited.rowNumber);
+    const rows = importRows.map(r => (r.rowNumber === edited.rowNumber ? edited : r));
+    const accounts = [edited.accountNumber, ...(previous ? [previous.accountNumber] : [])];
+    setImportRows(rows);
+    setProcessedData(reanalyzeAccounts(processedData, rows, accounts, existingCustomers, existingParents, options));
+  };
 
-        if (validContacts.length === 1) {
-            validContacts[0].isPrimary = true;
-        } else if (validContacts.length > 1) {
-            const primaryCount = validContacts.filter(c => c.isPrimary).length;
-            if (primaryCount === 0) {
-                 groupRows.forEach(r => errors.push({ rowNumber: r.rowNumber, reason: 'Multiple contacts found but none marked as Primary.' }));
-                 return;
-            }
-            if (primaryCount > 1) {
-                 groupRows.forEach(r => errors.push({ rowNumber: r.rowNumber, reason: 'Multiple contacts marked as Primary. Only one allowed.' }));
-                 return;
-            }
-        } else {
-             groupRows.forEach(r => errors.push({ rowNumber: r.rowNumber, reason: 'No valid contacts found.' }));
-             return;
-        }
+  const handleDownloadErrors = () => {
+    if (!importRows || !processedData) return;
+    downloadFile(importRowsToCsv(importRows, processedData.errors), `${(file?.name || 'import').replace(/\.[^.]+$/, '')}_errors.csv`, 'text/csv;charset=utf-8');
+  };
 
-        // 5. Hierarchy Classification
-        const isParent = !firstRow.parentCustomerName;
-        let parentId: string | undefined | null = undefined;
-
-        if (!isParent) {
-            const parentNameKey = firstRow.parentCustomerName.toLowerCase();
-            parentId = parentNameMap.get(parentNameKey);
-
-            if (!parentId) {
-                groupRows.forEach(r => errors.push({ 
-                    rowNumber: r.rowNumber, 
-                    reason: `Parent Customer '${firstRow.parentCustomerName}' not found (in system or file).` 
-                }));
-                return;
-            }
+  // Full-fidelity path for files written by the JSON export: records keep their ids and aliases,
+  // which import rows do not carry, and are checked with the same rules as the customer form.
+  // Other JSON arrays are laid out as import rows and analyzed like a spreadsheet.
+  const analyzeJsonExport = (exported: CustomerJsonExport) => {
+    const validCustomers: Customer[] = [];
+    const errors: { rowNumber: number; reason: string }[] = [];
+    const records = migrateCustomers(exported.customers, exported.schemaVersion);
+
+    // Keep exported ids so parent links survive, but re-key any that clash with existing records
+    const existingIds = new Set(existingCustomers.map(c => c.id));
+    const idMap = new Map<string, string>();
+    records.forEach(r => {
+      idMap.set(r.id, existingIds.has(r.id) ? `cust_import_${Date.now()}_${Math.random().toString(36).substr(2, 5)}` : r.id);
+    });
+    const existingParentIds = new Set(existingParents.map(p => p.id));
+    // Any record in the file can be a parent, at whatever level it sits
+    const batchIds = new Set(idMap.values());
+
+    records.forEach((record, index) => {
+      const rowNumber = index + 1;
+      const parentId = record.parentId ? (idMap.get(record.parentId) || record.parentId) : null;
+      const data = {
+        type: record.type,
+        name: record.name || '',
+        accountNumber: record.accountNumber || '',
+        isVip: !!record.isVip,
+        addresses: record.addresses || [],
+        parentId,
+        contacts: record.contacts || [],
+      };
+
+      const ruleErrors = validateCustomer(data, [...existingCustomers, ...validCustomers]);
+      // Aliases from merged duplicates come along with the record and must stay unique too
+      (record.accountAliases || []).forEach(alias => {
+        if (!isAccountNumberUnique([...existingCustomers, ...validCustomers], alias)) {
+          ruleErrors.push(`Account alias '${alias}' is already in use.`);
         }
+      });
+      // A direct customer may stand alone; only a parent it names has to exist
+      if (record.type === CustomerType.DIRECT && parentId && !existingParentIds.has(parentId) && !batchIds.has(parentId)) {
+        ruleErrors.push(`Parent Customer '${record.parentId || ''}' not found (in system or file).`);
+      }
+      if (ruleErrors.length > 0) {
+        ruleErrors.forEach(reason => errors.push({ rowNumber, reason: `${data.name || data.accountNumber}: ${reason}` }));
+        return;
+      }
 
-        // 6. Build Customer Object (Mapping CSV single address to Address[])
-        let finalId = isParent 
-            ? parentNameMap.get(firstRow.customerName.toLowerCase()) 
-            : `cust_import_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
-
-        if (!finalId) finalId = `cust_err_${Date.now()}`;
-
-        // Create a primary address from CSV data
-        const primaryAddress: Address = {
-            id: `addr_${Date.now()}_imp`,
-            street: firstRow.address,
-            city: 'Imported City', // Placeholder as CSV didn't have separate city/state
-            state: 'Imported State', // Placeholder
-            zipCode: firstRow.zipCode,
-            isPrimary: true,
-            isBilling: true,
-            isGateProperty: false
-        };
-
-        const newCustomer: Customer = {
-            id: finalId,
-            type: isParent ? CustomerType.PARENT : CustomerType.DIRECT,
-            name: firstRow.customerName,
-            accountNumber: firstRow.accountNumber,
-            isVip: false,
-            addresses: [primaryAddress],
-            parentId: isParent ? undefined : parentId,
-            contacts: validContacts,
-            createdAt: new Date().toISOString()
-        };
-
-        validCustomers.push(newCustomer);
+      validCustomers.push({
+        ...record,
+        ...data,
+        id: idMap.get(record.id)!,
+        parentId: record.type === CustomerType.DIRECT ? parentId : undefined,
+        deletedAt: null,
+        deletedChildIds: undefined,
+      });
     });
 
+    // Sub-accounts may come before their parent, so links and hierarchy limits are checked again once
+    // every record is in. Dropping a customer can strand its children, hence the loop.
+    const rowNumbers = new Map(records.map((r, index) => [idMap.get(r.id)!, index + 1]));
+    let kept = validCustomers;
+    for (let dropped = true; dropped; ) {
+      const keptIds = new Set([...existingParentIds, ...kept.map(c => c.id)]);
+      const hierarchyErrors = createHierarchyCheck([...existingCustomers, ...kept]);
+      const next = kept.filter(c => {
+        const reason = c.parentId && !keptIds.has(c.parentId)
+          ? 'Parent Customer could not be imported.'
+          : hierarchyErrors(c.id).join(' ');
+        if (reason) errors.push({ rowNumber: rowNumbers.get(c.id)!, reason: `${c.name}: ${reason}` });
+        return !reason;
+      });
+      dropped = next.length < kept.length;
+      kept = next;
+    }
+
+    setImportRows(null);
     setProcessedData({
-        validCustomers,
-        errors: errors.sort((a,b) => a.rowNumber - b.rowNumber)
+      rowCount: records.length,
+      validCustomers: kept,
+      updates: [],
+      unchangedAccounts: [],
+      errors: errors.sort((a, b) => a.rowNumber - b.rowNumber),
     });
-    
-    if (validCustomers.length > 0) setActiveTab('VALID');
-    else setActiveTab('ERRORS');
+    setActiveTab(kept.length > 0 ? 'VALID' : 'ERRORS');
   };
 
   const handleDownloadTemplate = () => {
-    const headers = [
-      'Customer Name',
-      'Account Number',
-      'Address',
-      'Zip Code',
-      'Parent Customer Name',
-      'Contact Name',
-      'Contact Email',
-      'Contact Phone',
-      'Is Primary Contact'
-    ];
-    const sampleRow1 = [
-        'M2 Plus Construction Co Ltd.', 'ACC-9001', '123 Build St', '50000', '', 'Mike Builder', 'mike@m2plus.com', '555-1234', 'TRUE'
-    ];
-    const sampleRow2 = [
-        'Punyisa Villa 21', 'ACC-9002', '456 Villa Ln', '50000', 'M2 Plus Construction Co Ltd.', 'Sarah Villa', 'sarah@villa.com', '555-5678', 'TRUE'
+    // The second row adds another address to the first account; contacts and addresses are grouped by Account Number
+    const sampleRows = [
+        ['M2 Plus Construction Co Ltd.', 'ACC-9001', '', '123 Build St', 'Seattle', 'WA', '98101', '', '', 'TRUE', 'TRUE', 'FALSE', 'Mike Builder', 'mike@m2plus.com', '555-1234', 'TRUE', 'Parent', 'TRUE'],
+        ['M2 Plus Construction Co Ltd.', 'ACC-9001', '', '88 Depot Rd', 'Tacoma', 'WA', '98402', '', '', 'FALSE', 'FALSE', 'TRUE', '', '', '', '', '', ''],
+        ['Punyisa Villa 21', 'ACC-9002', 'M2 Plus Construction Co Ltd.', '', 'Seattle', 'WA', '98109', '47.6205', '-122.3493', 'TRUE', 'TRUE', 'FALSE', 'Sarah Villa', 'sarah@villa.com', '555-5678', 'TRUE', 'Direct', 'FALSE'],
     ];
-    
-    const csvContent = "data:text/csv;charset=utf-8," 
-        + headers.join(",") + "\n" 
-        + sampleRow1.map(f => `"${f}"`).join(",") + "\n"
-        + sampleRow2.map(f => `"${f}"`).join(",");
+
+    const csvContent = "data:text/csv;charset=utf-8,"
+        + [IMPORT_CSV_HEADERS.join(","), ...sampleRows.map(toCsvLine)].join("\n");
 
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
@@ -303,29 +282,37 @@ export const ImportCustomers: React.FC<ImportCustomersProps> = ({
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Import Customers</h1>
-          <p className="text-sm text-gray-500 mt-1">Upload a CSV file to bulk import customer records.</p>
+          <p className="text-sm text-gray-500 mt-1">Upload a CSV, Excel or JSON file to bulk import customer records. Files are read in your browser.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onShowHistory}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <History className="h-4 w-4 mr-2" /> Import History
+          </button>
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" /> Back to List
+          </button>
         </div>
-        <button
-          onClick={onCancel}
-          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-        >
-          <ArrowLeft className="h-4 w-4 mr-2" /> Back to List
-        </button>
       </div>
 
       {/* File Upload Section */}
       <div className="bg-white shadow rounded-lg p-6">
-        {!processedData ? (
+        {!processedData && !tableData ? (
           <div className="text-center border-2 border-dashed border-gray-300 rounded-lg p-12 hover:border-blue-400 transition-colors">
             <Upload className="mx-auto h-12 w-12 text-gray-400" />
             <div className="mt-4 flex text-sm justify-center text-gray-600">
               <label htmlFor="file-upload" className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500">
-                <span>Upload a CSV file</span>
-                <input id="file-upload" name="file-upload" type="file" accept=".csv" className="sr-only" ref={fileInputRef} onChange={handleFileChange} />
+                <span>Upload a CSV, Excel or JSON file</span>
+                <input id="file-upload" name="file-upload" type="file" accept=".csv,.xlsx,.json" className="sr-only" ref={fileInputRef} onChange={handleFileChange} />
               </label>
               <p className="pl-1">or drag and drop</p>
             </div>
-            <p className="text-xs text-gray-500 mt-2">CSV files up to 10MB</p>
+            <p className="text-xs text-gray-500 mt-2">CSV (comma, semicolon or tab separated), Excel .xlsx, or JSON (an export or an array of customers)</p>
             <div className="mt-6">
                 <button 
                     type="button" 
@@ -345,16 +332,112 @@ export const ImportCustomers: React.FC<ImportCustomersProps> = ({
                        <p className="text-xs text-gray-500">{Math.round((file?.size || 0) / 1024)} KB</p>
                    </div>
                </div>
-               <button 
-                  onClick={() => { setFile(null); setProcessedData(null); }}
-                  className="text-sm text-red-600 hover:text-red-800 font-medium"
-               >
-                   Remove & Upload New
-               </button>
+               <div className="flex items-center space-x-4">
+                   {processedData && (tableData || importRows) && (
+                       <button
+                          onClick={() => setProcessedData(null)}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                       >
+                           {tableData ? 'Edit Mapping & Options' : 'Edit Options'}
+                       </button>
+                   )}
+                   <button 
+                      onClick={() => { cancelParsing(); setFile(null); setProcessedData(null); setTableData(null); setImportRows(null); setWorkbook(null); }}
+                      className="text-sm text-red-600 hover:text-red-800 font-medium"
+                   >
+                       Remove & Upload New
+                   </button>
+               </div>
            </div>
         )}
 
-        {file && !processedData && (
+        {workbook && workbook.sheetNames.length > 1 && tableData && !processedData && (
+            <div className="mt-6">
+                <label htmlFor="import-sheet" className="block text-sm font-medium text-gray-700">Sheet</label>
+                <select
+                    id="import-sheet"
+                    value={selectedSheet}
+                    disabled={parseProgress !== null}
+                    onChange={(e) => handleSheetChange(e.target.value)}
+                    className="mt-1 block w-full sm:w-1/2 pl-3 pr-10 py-2 text-sm border-gray-300 rounded-md bg-white text-black disabled:opacity-50"
+                >
+                    {workbook.sheetNames.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                    ))}
+                </select>
+                {parseProgress !== null && (
+                    <p className="mt-1 text-xs text-gray-500">Reading sheet... {Math.round(parseProgress * 100)}%</p>
+                )}
+            </div>
+        )}
+
+        {file && !processedData && (tableData || parseProgress === null) && (
+            <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="import-mode" className="block text-sm font-medium text-gray-700">Import Mode</label>
+                    <select
+                        id="import-mode"
+                        value={options.mode}
+                        onChange={(e) => setOptions({ ...options, mode: e.target.value as ImportMode })}
+                        className="mt-1 block w-full pl-3 pr-10 py-2 text-sm border-gray-300 rounded-md bg-white text-black"
+                    >
+                        {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(mode => (
+                            <option key={mode} value={mode}>{IMPORT_MODE_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                        Existing customers are matched on Account Number. Full JSON exports are always added as new customers.
+                    </p>
+                </div>
+                {options.mode !== 'CREATE' && (
+                    <div>
+                        <label htmlFor="collection-mode" className="block text-sm font-medium text-gray-700">Contacts & Addresses</label>
+                        <select
+                            id="collection-mode"
+                            value={options.collectionMode}
+                            onChange={(e) => setOptions({ ...options, collectionMode: e.target.value as CollectionMergeMode })}
+                            className="mt-1 block w-full pl-3 pr-10 py-2 text-sm border-gray-300 rounded-md bg-white text-black"
+                        >
+                            <option value="MERGE">Merge with existing</option>
+                            <option value="REPLACE">Replace existing</option>
+                        </select>
+                        <p className="mt-1 text-xs text-gray-500">
+                            {options.collectionMode === 'MERGE'
+                                ? 'Contacts are matched on email and addresses on street; anything new is added.'
+                                : 'Existing contacts and addresses are replaced by the ones in the file.'}
+                            {' '}An empty parent column leaves the hierarchy unchanged.
+                        </p>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {tableData && !processedData && (
+            <ColumnMapper
+                headers={tableData.headers}
+                sampleRows={tableData.rows.slice(0, 3)}
+                mapping={mapping}
+                onChange={setMapping}
+                onConfirm={handleConfirmMapping}
+                onStorageError={onStorageError}
+            />
+        )}
+
+        {file && !processedData && !tableData && parseProgress !== null && (
+             <div className="mt-4">
+                 <div className="flex items-center justify-between text-sm text-gray-600 mb-1">
+                     <span>Reading file... {Math.round(parseProgress * 100)}%</span>
+                     <button onClick={cancelParsing} className="text-sm text-gray-500 hover:text-gray-700 font-medium">
+                         Cancel
+                     </button>
+                 </div>
+                 <div className="w-full bg-gray-200 rounded-full h-2">
+                     <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${Math.round(parseProgress * 100)}%` }} />
+                 </div>
+             </div>
+        )}
+
+        {file && !processedData && !tableData && parseProgress === null && (
              <div className="mt-4 flex justify-end">
                  <button
                     onClick={processFile}
@@ -373,18 +456,29 @@ export const ImportCustomers: React.FC<ImportCustomersProps> = ({
                 <nav className="-mb-px flex">
                     <button
                         onClick={() => setActiveTab('VALID')}
-                        className={`w-1/2 py-4 px-1 text-center border-b-2 font-medium text-sm flex items-center justify-center ${
+                        className={`w-1/3 py-4 px-1 text-center border-b-2 font-medium text-sm flex items-center justify-center ${
                             activeTab === 'VALID'
                             ? 'border-blue-500 text-blue-600'
                             : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                         }`}
                     >
                         <CheckCircle className="h-5 w-5 mr-2" />
-                        Valid Records ({processedData.validCustomers.length})
+                        New Records ({processedData.validCustomers.length})
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('UPDATES')}
+                        className={`w-1/3 py-4 px-1 text-center border-b-2 font-medium text-sm flex items-center justify-center ${
+                            activeTab === 'UPDATES'
+                            ? 'border-amber-500 text-amber-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                        }`}
+                    >
+                        <RefreshCw className="h-5 w-5 mr-2" />
+                        Updates ({processedData.updates.length})
                     </button>
                     <button
                         onClick={() => setActiveTab('ERRORS')}
-                        className={`w-1/2 py-4 px-1 text-center border-b-2 font-medium text-sm flex items-center justify-center ${
+                        className={`w-1/3 py-4 px-1 text-center border-b-2 font-medium text-sm flex items-center justify-center ${
                             activeTab === 'ERRORS'
                             ? 'border-red-500 text-red-600'
                             : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
@@ -400,7 +494,7 @@ export const ImportCustomers: React.FC<ImportCustomersProps> = ({
                 {activeTab === 'VALID' && (
                     <div className="space-y-4">
                         {processedData.validCustomers.length === 0 ? (
-                            <p className="text-center text-gray-500 py-8">No valid records found.</p>
+                            <p className="text-center text-gray-500 py-8">No new records found.</p>
                         ) : (
                             <div className="overflow-x-auto">
                                 <table className="min-w-full divide-y divide-gray-200">
@@ -441,20 +535,20 @@ export const ImportCustomers: React.FC<ImportCustomersProps> = ({
                                 </table>
                             </div>
                         )}
-                        
-                        <div className="mt-4 flex justify-end">
-                            <button
-                                onClick={() => onImport(processedData.validCustomers)}
-                                disabled={processedData.validCustomers.length === 0}
-                                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
-                            >
-                                <CheckCircle className="h-4 w-4 mr-2" />
-                                Import {processedData.validCustomers.length} Records
-                            </button>
-                        </div>
                     </div>
                 )}
 
+                {activeTab === 'UPDATES' && (
+                    processedData.updates.length === 0 ? (
+                        <p className="text-center text-gray-500 py-8">No existing customers will change.</p>
+                    ) : (
+                        <ImportUpdatePreview
+                            updates={processedData.updates}
+                            knownCustomers={[...existingCustomers, ...processedData.validCustomers]}
+                        />
+                    )
+                )}
+
                 {activeTab === 'ERRORS' && (
                     <div className="space-y-4">
                          {processedData.errors.length === 0 ? (
@@ -462,6 +556,13 @@ export const ImportCustomers: React.FC<ImportCustomersProps> = ({
                                 <CheckCircle className="mx-auto h-12 w-12 text-green-400" />
                                 <p className="mt-2 text-sm text-gray-500">No errors found! The file is clean.</p>
                             </div>
+                        ) : importRows ? (
+                            <ImportErrorGrid
+                                rows={importRows}
+                                errors={processedData.errors}
+                                onRowChange={handleRowEdit}
+                                onDownload={handleDownloadErrors}
+                            />
                         ) : (
                             <table className="min-w-full divide-y divide-gray-200">
                                 <thead className="bg-gray-50">
@@ -483,6 +584,30 @@ export const ImportCustomers: React.FC<ImportCustomersProps> = ({
                     </div>
                 )}
             </div>
+
+            {activeTab !== 'ERRORS' && (
+                <div className="px-4 pb-4 flex items-center justify-end space-x-4">
+                    {processedData.unchangedAccounts.length > 0 && (
+                        <span className="text-sm text-gray-500">
+                            {processedData.unchangedAccounts.length} existing {processedData.unchangedAccounts.length === 1 ? 'customer is' : 'customers are'} already up to date
+                        </span>
+                    )}
+                    <button
+                        onClick={() => onImport(processedData.validCustomers, processedData.updates.map(u => u.after), {
+                            fileName: file?.name || 'Unknown file',
+                            rowCount: processedData.rowCount,
+                            errorCount: processedData.errors.length,
+                        })}
+                        disabled={processedData.validCustomers.length === 0 && processedData.updates.length === 0}
+                        className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        {processedData.updates.length > 0
+                            ? `Create ${processedData.validCustomers.length}, Update ${processedData.updates.length}`
+                            : `Import ${processedData.validCustomers.length} Records`}
+                    </button>
+                </div>
+            )}
         </div>
       )}
     </div>
@@ -0,0 +1,100 @@
+import React from 'react';
+import { ImportField, ImportRow } from '../types';
+import { IMPORT_FIELDS } from '../services/importMapping';
+import { ImportError } from '../services/importAnalysis';
+import { AlertCircle, Download } from 'lucide-react';
+
+interface ImportErrorGridProps {
+  rows: ImportRow[];
+  errors: ImportError[];
+  onRowChange: (row: ImportRow) => void;
+  onDownload: () => void;
+}
+
+const BOOLEAN_FIELDS: ImportField[] = ['isPrimaryAddress', 'isBillingAddress', 'isGateProperty', 'isPrimary'];
+
+export const ImportErrorGrid: React.FC<ImportErrorGridProps> = ({ rows, errors, onRowChange, onDownload }) => {
+  const reasonsByRow = new Map<number, string[]>();
+  errors.forEach(e => reasonsByRow.set(e.rowNumber, [...(reasonsByRow.get(e.rowNumber) || []), e.reason]));
+  const failedRows = rows.filter(r => reasonsByRow.has(r.rowNumber));
+
+  // Text cells commit on blur (or Enter) so the account group is re-checked once per edit, not per keystroke
+  const commit = (row: ImportRow, field: ImportField, value: string | boolean) => {
+    if (row[field] !== value) onRowChange({ ...row, [field]: value });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Fix a cell and leave it to re-check the row. Rows that pass move to the New Records or Updates tab.
+        </p>
+        <button
+          type="button"
+          onClick={onDownload}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 whitespace-nowrap"
+        >
+          <Download className="h-4 w-4 mr-1" /> Download Errors CSV
+        </button>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="sticky left-0 bg-gray-50 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row #</th>
+              {IMPORT_FIELDS.map(f => (
+                <th key={f.field} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase whitespace-nowrap">{f.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {failedRows.map(row => (
+              <React.Fragment key={row.rowNumber}>
+                <tr className="border-t border-gray-200">
+                  <td className="sticky left-0 bg-white px-3 py-2 text-sm font-medium text-gray-900">{row.rowNumber}</td>
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <td key={field} className="px-1 py-1">
+                      {BOOLEAN_FIELDS.includes(field) ? (
+                        <input
+                          type="checkbox"
+                          aria-label={`${label}, row ${row.rowNumber}`}
+                          checked={row[field] as boolean}
+                          onChange={(e) => commit(row, field, e.target.checked)}
+                          className="h-4 w-4 ml-2 text-blue-600 border-gray-300 rounded"
+                        />
+                      ) : (
+                        <input
+                          // Remount when the value changes underneath, e.g. after another edit re-keys the row
+                          key={row[field] as string}
+                          type="text"
+                          aria-label={`${label}, row ${row.rowNumber}`}
+                          defaultValue={row[field] as string}
+                          onBlur={(e) => commit(row, field, e.target.value.trim())}
+                          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                          className="block w-40 px-2 py-1 text-sm border-gray-300 rounded bg-white text-black focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td colSpan={IMPORT_FIELDS.length + 1} className="px-3 pb-2">
+                    <ul className="text-xs text-red-600 space-y-0.5">
+                      {reasonsByRow.get(row.rowNumber)!.map((reason, i) => (
+                        <li key={i} className="flex items-start">
+                          <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                          {reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { ImportBatch } from '../types';
+import { RollbackPlan } from '../services/importBatches';
+import { ArrowLeft, History, RotateCcw } from 'lucide-react';
+
+interface ImportHistoryProps {
+  batches: ImportBatch[];
+  getRollbackPlan: (batchId: string) => RollbackPlan | null;
+  onRollback: (batchId: string) => void;
+  onBack: () => void;
+}
+
+const describePlan = (plan: RollbackPlan) => {
+  const lines = [`• ${plan.remove.length} imported customers will be removed.`];
+  if (plan.revert.length > 0) lines.push(`• ${plan.revert.length} updated customers will be put back as they were.`);
+  if (plan.detach.length > 0) {
+    lines.push(`• ${plan.detach.length} other sites linked to an imported parent will become standalone: ${plan.detach.map(c => c.name).join(', ')}.`);
+  }
+  if (plan.skipped.length > 0) {
+    lines.push(`• ${plan.skipped.length} updated customers were edited again after the import and will be left as they are: ${plan.skipped.map(c => c.name).join(', ')}.`);
+  }
+  return lines.join('\n');
+};
+
+export const ImportHistory: React.FC<ImportHistoryProps> = ({ batches, getRollbackPlan, onRollback, onBack }) => {
+  const sorted = [...batches].sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+
+  const handleRollback = (batch: ImportBatch) => {
+    const plan = getRollbackPlan(batch.id);
+    if (!plan) return;
+    const message = `Roll back the import of "${batch.fileName}"?\n\n${describePlan(plan)}\n\nYou can still undo this with Ctrl+Z until the page is reloaded.`;
+    if (window.confirm(message)) onRollback(batch.id);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import History</h1>
+          <p className="text-sm text-gray-500 mt-1">Every confirmed import, newest first. Rolling back removes the customers an import created and reverts the ones it updated.</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" /> Back to Import
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {sorted.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="mx-auto h-10 w-10 text-gray-300" />
+            <p className="mt-2 text-gray-500">No imports yet.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">File</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Imported</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Rows</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Created</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Updated</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Errors</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sorted.map(batch => (
+                <tr key={batch.id} className={batch.rolledBackAt ? 'bg-gray-50' : undefined}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {batch.fileName}
+                    <div className="text-xs font-mono text-gray-400">{batch.id}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(batch.importedAt).toLocaleString()}
+                    <div className="text-xs text-gray-400">by {batch.actor}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{batch.rowCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{batch.createdCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{batch.updatedBefore.length}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                    <span className={batch.errorCount > 0 ? 'text-red-600' : 'text-gray-900'}>{batch.errorCount}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {batch.rolledBackAt ? (
+                      <span className="text-xs text-gray-500">Rolled back {new Date(batch.rolledBackAt).toLocaleString()}</span>
+                    ) : (
+                      <button
+                        onClick={() => handleRollback(batch)}
+                        className="inline-flex items-center text-amber-600 hover:text-amber-900 p-1 rounded hover:bg-amber-50"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" /> Roll Back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Customer, FieldChange } from '../types';
+import { ImportUpdate } from '../services/importAnalysis';
+import { ArrowRight } from 'lucide-react';
+
+interface ImportUpdatePreviewProps {
+  updates: ImportUpdate[];
+  // Customers a parent id may refer to, including parents created by the same import
+  knownCustomers: Customer[];
+}
+
+export const ImportUpdatePreview: React.FC<ImportUpdatePreviewProps> = ({ updates, knownCustomers }) => {
+  const formatValue = (change: FieldChange, value: FieldChange['before']) => {
+    if (value === null) return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (change.field === 'parentId') return knownCustomers.find(c => c.id === value)?.name || value;
+    return value;
+  };
+
+  return (
+    <div className="space-y-4">
+      {updates.map(({ before, after, changes }) => (
+        <div key={after.id} className="border border-gray-200 rounded-md">
+          <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900">{before.name}</span>
+            <span className="text-xs text-gray-500">
+              {after.accountNumber} · {changes.length} {changes.length === 1 ? 'change' : 'changes'}
+            </span>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {changes.map(change => (
+              <li key={change.field} className="px-4 py-2 text-sm grid grid-cols-1 sm:grid-cols-3 gap-1 sm:gap-4">
+                <span className="text-gray-500">{change.label}</span>
+                <span className="text-red-600 line-through break-words">{formatValue(change, change.before)}</span>
+                <span className="text-green-700 break-words flex items-start">
+                  <ArrowRight className="h-4 w-4 mr-1 flex-shrink-0 text-gray-400 hidden sm:block" />
+                  {formatValue(change, change.after)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Users, LayoutDashboard } from 'lucide-react';
+import { CURRENT_USER } from '../constants';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -24,9 +25,9 @@ export const Layout: React.FC<LayoutProps> = ({ children, onNavigateHome }) => {
               </div>
             </div>
             <div className="flex items-center">
-              <span className="text-sm text-gray-500 mr-4">System Admin</span>
+              <span className="text-sm text-gray-500 mr-4">{CURRENT_USER.name}</span>
               <div className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-700 font-semibold">
-                SA
+                {CURRENT_USER.initials}
               </div>
             </div>
           </div>
@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from 'react';
+import { Address, Contact, Customer, CustomerFormData, CustomerType } from '../types';
+import { MergeItem, combineAddresses, combineContacts, planMerge } from '../services/customerMerge';
+import { getChildrenMap, getHierarchyPaths } from '../services/hierarchy';
+import { AlertTriangle, ArrowLeft, GitMerge } from 'lucide-react';
+
+interface MergeCustomersProps {
+  first: Customer;
+  second: Customer;
+  allCustomers: Customer[];
+  // Returns an error message when the merge could not be applied
+  onMerge: (survivorId: string, loserId: string, data: CustomerFormData, baseVersions: Record<string, number>) => string | null;
+  onCancel: () => void;
+}
+
+// What the user has picked for the surviving record
+interface Selection {
+  name: string;
+  isVip: boolean;
+  parentId: string | null;
+  keptAddressIds: string[];
+  primaryAddressId: string;
+  billingAddressId: string;
+  keptContactIds: string[];
+  primaryContactId: string;
+}
+
+// Everything is kept by default, with the survivor's primary and billing choices
+const defaultSelection = (survivor: Customer, loser: Customer, addresses: MergeItem<Address>[], contacts: MergeItem<Contact>[]): Selection => ({
+  name: survivor.name,
+  isVip: survivor.isVip || loser.isVip,
+  parentId: survivor.parentId || null,
+  keptAddressIds: addresses.map(a => a.item.id),
+  primaryAddressId: addresses.find(a => a.item.isPrimary)?.item.id || '',
+  billingAddressId: addresses.find(a => a.item.isBilling)?.item.id || '',
+  keptContactIds: contacts.map(c => c.item.id),
+  primaryContactId: contacts.find(c => c.item.isPrimary)?.item.id || '',
+});
+
+const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+export const MergeCustomers: React.FC<MergeCustomersProps> = ({ first, second, allCustomers, onMerge, onCancel }) => {
+  // The record created first usually has the history worth keeping
+  const [survivorId, setSurvivorId] = useState(first.createdAt <= second.createdAt ? first.id : second.id);
+  const survivor = survivorId === first.id ? first : second;
+  const loser = survivorId === first.id ? second : first;
+
+  const addresses = useMemo(() => combineAddresses(survivor, loser), [survivor, loser]);
+  const contacts = useMemo(() => combineContacts(survivor, loser), [survivor, loser]);
+  const [selection, setSelection] = useState<Selection>(() => defaultSelection(survivor, loser, addresses, contacts));
+  const [error, setError] = useState<string | null>(null);
+  // Versions the screen was opened with; the merge is refused if either record changes meanwhile
+  const [baseVersions] = useState(() => ({ [first.id]: first.version, [second.id]: second.version }));
+
+  const paths = useMemo(() => getHierarchyPaths(allCustomers), [allCustomers]);
+  const childrenMap = useMemo(() => getChildrenMap<Customer>(allCustomers), [allCustomers]);
+
+  const chooseSurvivor = (id: string) => {
+    if (id === survivorId) return;
+    const nextSurvivor = id === first.id ? first : second;
+    const nextLoser = id === first.id ? second : first;
+    setSurvivorId(id);
+    setSelection(defaultSelection(nextSurvivor, nextLoser, combineAddresses(nextSurvivor, nextLoser), combineContacts(nextSurvivor, nextLoser)));
+    setError(null);
+  };
+
+  const update = (change: Partial<Selection>) => setSelection(prev => ({ ...prev, ...change }));
+
+  const data: CustomerFormData = {
+    // Type follows the parent, the same way the form's parent select switches it
+    type: selection.parentId ? CustomerType.DIRECT : CustomerType.PARENT,
+    name: selection.name,
+    accountNumber: survivor.accountNumber,
+    isVip: selection.isVip,
+    parentId: selection.parentId,
+    addresses: addresses
+      .filter(a => selection.keptAddressIds.includes(a.item.id))
+      .map(({ item }) => ({ ...item, isPrimary: item.id === selection.primaryAddressId, isBilling: item.id === selection.billingAddressId })),
+    contacts: contacts
+      .filter(c => selection.keptContactIds.includes(c.item.id))
+      .map(({ item }) => ({ ...item, isPrimary: item.id === selection.primaryContactId })),
+  };
+  const plan = planMerge(allCustomers, survivor.id, loser.id, data);
+
+  const handleMerge = () => {
+    if (plan.errors.length > 0) return;
+    setError(onMerge(survivor.id, loser.id, data, baseVersions));
+  };
+
+  const sourceLabel = (sources: string[]) =>
+    sources.length > 1 ? 'Both' : sources[0] === first.id ? first.accountNumber : second.accountNumber;
+
+  const names = [...new Set([first.name, second.name])];
+  const parentIds = [...new Set([survivor.parentId || null, loser.parentId || null])];
+
+  const renderRecord = (customer: Customer) => {
+    const childCount = childrenMap.get(customer.id)?.length || 0;
+    const isSurvivor = customer.id === survivorId;
+    return (
+      <label
+        key={customer.id}
+        className={`flex-1 border rounded-lg p-4 cursor-pointer ${isSurvivor ? 'border-blue-500 ring-2 ring-blue-200 bg-blue-50' : 'border-gray-200 bg-white'}`}
+      >
+        <div className="flex items-start">
+          <input
+            type="radio"
+            name="survivor"
+            checked={isSurvivor}
+            onChange={() => chooseSurvivor(customer.id)}
+            className="mt-1 h-4 w-4 text-blue-600 border-gray-300"
+          />
+          <div className="ml-3 min-w-0">
+            <p className="text-sm font-medium text-gray-900">{customer.name}</p>
+            <p className="text-xs text-gray-500 font-mono">{customer.accountNumber}</p>
+            {customer.parentId && <p className="text-xs text-gray-400">in {paths.get(customer.parentId)}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+              {customer.addresses.length} address{customer.addresses.length === 1 ? '' : 'es'} · {customer.contacts.length} contact{customer.contacts.length === 1 ? '' : 's'} · {childCount} sub-account{childCount === 1 ? '' : 's'}
+            </p>
+            <p className="text-xs text-gray-400">Created {new Date(customer.createdAt).toLocaleDateString()}</p>
+            <p className={`text-xs font-semibold mt-2 ${isSurvivor ? 'text-blue-700' : 'text-gray-400'}`}>
+              {isSurvivor ? 'Keep this record' : 'Merge into the other record'}
+            </p>
+          </div>
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Merge Customers</h1>
+          <p className="text-sm text-gray-500 mt-1">Choose the record to keep and what it takes from the duplicate.</p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" /> Back to Duplicates
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        {renderRecord(first)}
+        {renderRecord(second)}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Details</h2>
+        {names.length > 1 && (
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">Customer Name</legend>
+            <div className="mt-2 flex flex-col sm:flex-row gap-4">
+              {names.map(name => (
+                <label key={name} className="inline-flex items-center text-sm text-gray-700">
+                  <input type="radio" name="merge-name" checked={selection.name === name} onChange={() => update({ name })} className="h-4 w-4 text-blue-600 border-gray-300" />
+                  <span className="ml-2">{name}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+        {parentIds.length > 1 && (
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">Parent Account</legend>
+            <div className="mt-2 flex flex-col sm:flex-row gap-4">
+              {parentIds.map(parentId => (
+                <label key={parentId || 'none'} className="inline-flex items-center text-sm text-gray-700">
+                  <input type="radio" name="merge-parent" checked={selection.parentId === parentId} onChange={() => update({ parentId })} className="h-4 w-4 text-blue-600 border-gray-300" />
+                  <span className="ml-2">{parentId ? paths.get(parentId) || parentId : 'No Parent'}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input type="checkbox" checked={selection.isVip} onChange={(e) => update({ isVip: e.target.checked })} className="h-4 w-4 text-blue-600 border-gray-300 rounded" />
+          <span className="ml-2">VIP Customer</span>
+        </label>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <h2 className="text-lg font-medium text-gray-900 px-6 pt-6 pb-4">Addresses</h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keep</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Address</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Primary</th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Billing</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {addresses.map(({ item, sources }) => {
+              const kept = selection.keptAddressIds.includes(item.id);
+              return (
+                <tr key={item.id} className={kept ? '' : 'opacity-50'}>
+                  <td className="px-6 py-3">
+                    <input type="checkbox" checked={kept} onChange={() => update({ keptAddressIds: toggle(selection.keptAddressIds, item.id) })} className="h-4 w-4 text-blue-600 border-gray-300 rounded" />
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {item.street || `${item.latitude}, ${item.longitude}`}, {item.city} {item.state} {item.zipCode}
+                    {item.isGateProperty && <span className="ml-2 text-xs text-amber-600">(Gate)</span>}
+                  </td>
+                  <td className="px-6 py-3 text-xs text-gray-500 font-mono">{sourceLabel(sources)}</td>
+                  <td className="px-6 py-3 text-center">
+                    <input type="radio" name="merge-primary-address" disabled={!kept} checked={selection.primaryAddressId === item.id} onChange={() => update({ primaryAddressId: item.id })} className="h-4 w-4 text-blue-600 border-gray-300" />
+                  </td>
+                  <td className="px-6 py-3 text-center">
+                    <input type="radio" name="merge-billing-address" disabled={!kept} checked={selection.billingAddressId === item.id} onChange={() => update({ billingAddressId: item.id })} className="h-4 w-4 text-blue-600 border-gray-300" />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <h2 className="text-lg font-medium text-gray-900 px-6 pt-6 pb-4">Contacts</h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keep</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Primary</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {contacts.map(({ item, sources }) => {
+              const kept = selection.keptContactIds.includes(item.id);
+              return (
+                <tr key={item.id} className={kept ? '' : 'opacity-50'}>
+                  <td className="px-6 py-3">
+                    <input type="checkbox" checked={kept} onChange={() => update({ keptContactIds: toggle(selection.keptContactIds, item.id) })} className="h-4 w-4 text-blue-600 border-gray-300 rounded" />
+                  </td>
+                  <td className="px-6 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{item.name}</div>
+                    <div className="text-gray-500">{item.email} · {item.phone}</div>
+                  </td>
+                  <td className="px-6 py-3 text-xs text-gray-500 font-mono">{sourceLabel(sources)}</td>
+                  <td className="px-6 py-3 text-center">
+                    <input type="radio" name="merge-primary-contact" disabled={!kept} checked={selection.primaryContactId === item.id} onChange={() => update({ primaryContactId: item.id })} className="h-4 w-4 text-blue-600 border-gray-300" />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Result</h2>
+        <ul className="text-sm text-gray-700 space-y-1 list-disc pl-5">
+          <li>"{loser.name}" ({loser.accountNumber}) is removed; Undo brings it back.</li>
+          <li>
+            Kept as aliases of {survivor.accountNumber}: {plan.aliases.join(', ')}. They stay reserved, and imports that use them update this customer.
+          </li>
+          {plan.repointed.length > 0 && (
+            <li>Sub-accounts moving under "{selection.name}": {plan.repointed.map(c => c.name).join(', ')}</li>
+          )}
+        </ul>
+
+        {(plan.errors.length > 0 || error) && (
+          <div className="rounded-md bg-red-50 p-4 border border-red-200 flex items-start">
+            <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+            <ul className="ml-3 text-sm text-red-700 space-y-1">
+              {plan.errors.map((e, i) => <li key={i}>{e}</li>)}
+              {error && <li>{error}</li>}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={plan.errors.length > 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <GitMerge className="h-4 w-4 mr-2" /> Merge Customers
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
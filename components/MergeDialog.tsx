@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { Address, Contact, Customer, CustomerFormData, CustomerType } from '../types';
+import { GitMerge, AlertTriangle, X } from 'lucide-react';
+
+// One version of the record being merged: the form fields plus the linked child ids
+export interface MergeSide {
+  data: CustomerFormData;
+  childIds: string[];
+}
+
+interface MergeDialogProps {
+  base: MergeSide; // The record when editing started
+  theirs: MergeSide; // The record as it is saved now
+  mine: MergeSide; // The unsaved form
+  allCustomers: Customer[];
+  onResolve: (merged: MergeSide) => void;
+  onCancel: () => void;
+}
+
+type Choice = 'mine' | 'theirs' | 'base';
+
+// One mergeable field, typed by its value
+interface TypedMergeField<T> {
+  key: string;
+  label: string;
+  get: (side: MergeSide) => T;
+  set: (side: MergeSide, value: T) => MergeSide;
+  render: (value: T) => React.ReactNode;
+}
+
+// The same field with its value type hidden, so fields of different types can share a list
+interface MergeField {
+  key: string;
+  label: string;
+  get: (side: MergeSide) => unknown;
+  // Copies the field's value from `source` onto `target`
+  take: (target: MergeSide, source: MergeSide) => MergeSide;
+  render: (side: MergeSide) => React.ReactNode;
+}
+
+const mergeField = <T,>({ key, label, get, set, render }: TypedMergeField<T>): MergeField => ({
+  key,
+  label,
+  get,
+  take: (target, source) => set(target, get(source)),
+  render: side => render(get(side)),
+});
+
+const CHOICE_LABELS: Record<Choice, string> = {
+  mine: 'My Version',
+  theirs: 'Current Saved',
+  base: 'Original',
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const renderAddresses = (addresses: Address[]) =>
+  addresses.length === 0 ? <span className="italic text-gray-400">None</span> : (
+    <ul className="space-y-1">
+      {addresses.map(a => (
+        <li key={a.id}>
+          {a.street || `${a.latitude}, ${a.longitude}`}, {a.city} {a.state} {a.zipCode}
+          {a.isPrimary && <span className="ml-1 text-xs text-blue-600">(Primary)</span>}
+          {a.isBilling && <span className="ml-1 text-xs text-green-600">(Billing)</span>}
+        </li>
+      ))}
+    </ul>
+  );
+
+const renderContacts = (contacts: Contact[]) =>
+  contacts.length === 0 ? <span className="italic text-gray-400">None</span> : (
+    <ul className="space-y-1">
+      {contacts.map(c => (
+        <li key={c.id}>
+          {c.name} &lt;{c.email}&gt; {c.phone}
+          {c.isPrimary && <span className="ml-1 text-xs text-blue-600">(Primary)</span>}
+        </li>
+      ))}
+    </ul>
+  );
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({
+  base,
+  theirs,
+  mine,
+  allCustomers,
+  onResolve,
+  onCancel,
+}) => {
+  const nameOf = (id: string | null) => {
+    if (!id) return <span className="italic text-gray-400">No Parent</span>;
+    const customer = allCustomers.find(c => c.id === id);
+    return customer ? `${customer.name} (${customer.accountNumber})` : id;
+  };
+
+  const fields: MergeField[] = [
+    mergeField<string>({
+      key: 'name', label: 'Customer Name',
+      get: s => s.data.name,
+      set: (s, v) => ({ ...s, data: { ...s.data, name: v } }),
+      render: v => v || <span className="italic text-gray-400">empty</span>,
+    }),
+    mergeField<string>({
+      key: 'accountNumber', label: 'Account Number',
+      get: s => s.data.accountNumber,
+      set: (s, v) => ({ ...s, data: { ...s.data, accountNumber: v } }),
+      render: v => v || <span className="italic text-gray-400">empty</span>,
+    }),
+    mergeField<boolean>({
+      key: 'isVip', label: 'VIP',
+      get: s => s.data.isVip,
+      set: (s, v) => ({ ...s, data: { ...s.data, isVip: v } }),
+      render: v => (v ? 'Yes' : 'No'),
+    }),
+    mergeField<string | null>({
+      // Type follows the parent, the same way the form's parent select switches it
+      key: 'parentId', label: 'Parent Account',
+      get: s => s.data.parentId,
+      set: (s, v) => ({ ...s, data: { ...s.data, parentId: v, type: v ? CustomerType.DIRECT : CustomerType.PARENT } }),
+      render: v => nameOf(v),
+    }),
+    mergeField<Address[]>({
+      key: 'addresses', label: 'Addresses',
+      get: s => s.data.addresses,
+      set: (s, v) => ({ ...s, data: { ...s.data, addresses: v } }),
+      render: renderAddresses,
+    }),
+    mergeField<Contact[]>({
+      key: 'contacts', label: 'Contacts',
+      get: s => s.data.contacts,
+      set: (s, v) => ({ ...s, data: { ...s.data, contacts: v } }),
+      render: renderContacts,
+    }),
+    mergeField<string[]>({
+      key: 'childIds', label: 'Linked Child Customers',
+      get: s => [...s.childIds].sort(),
+      set: (s, v) => ({ ...s, childIds: v }),
+      render: ids => ids.length === 0
+        ? <span className="italic text-gray-400">None</span>
+        : <ul>{ids.map(id => <li key={id}>{nameOf(id)}</li>)}</ul>,
+    }),
+  ];
+
+  const sides: Record<Choice, MergeSide> = { mine, theirs, base };
+
+  // Only fields where my version and the saved version disagree need a decision
+  const differing = fields.filter(f => !same(f.get(mine), f.get(theirs)));
+  const isConflict = (f: MergeField) => !same(f.get(mine), f.get(base)) && !same(f.get(theirs), f.get(base));
+
+  // Default to whichever side actually changed the field; true conflicts default to my version
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(differing.map(f => [f.key, same(f.get(mine), f.get(base)) ? 'theirs' : 'mine']))
+  );
+
+  const handleResolve = () => {
+    // Start from the saved record so fields nobody disagrees on keep their saved value
+    const merged = differing.reduce(
+      (acc, f) => f.take(acc, sides[choices[f.key]]),
+      theirs
+    );
+    onResolve(merged);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-gray-500/75 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 flex items-center">
+              <GitMerge className="h-5 w-5 mr-2 text-blue-500" />
+              Resolve Conflicting Changes
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              This customer was saved by someone else while you were editing. Choose which value to keep for each field.
+            </p>
+          </div>
+          <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          {differing.length === 0 ? (
+            <p className="text-sm text-gray-500">Your changes match the saved record. Nothing needs merging.</p>
+          ) : differing.map(f => (
+            <div key={f.key} className={`border rounded-lg p-4 ${isConflict(f) ? 'border-amber-300 bg-amber-50/40' : 'border-gray-200'}`}>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center">
+                {f.label}
+                {isConflict(f) && (
+                  <span className="ml-2 inline-flex items-center text-xs font-medium text-amber-700">
+                    <AlertTriangle className="h-3 w-3 mr-1" /> Changed on both sides
+                  </span>
+                )}
+              </h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {(['mine', 'theirs', 'base'] as Choice[]).map(choice => (
+                  <label
+                    key={choice}
+                    className={`block cursor-pointer rounded-md border p-3 text-sm ${choices[f.key] === choice ? 'border-blue-500 ring-1 ring-blue-500 bg-blue-50/40' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <div className="flex items-center mb-2">
+                      <input
+                        type="radio"
+                        name={`merge_${f.key}`}
+                        checked={choices[f.key] === choice}
+                        onChange={() => setChoices(prev => ({ ...prev, [f.key]: choice }))}
+                        className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-xs font-medium uppercase tracking-wide text-gray-500">{CHOICE_LABELS[choice]}</span>
+                    </div>
+                    <div className="text-gray-900 break-words">{f.render(sides[choice])}</div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Keep Editing
+          </button>
+          <button
+            type="button"
+            onClick={handleResolve}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <GitMerge className="h-4 w-4 mr-2" /> Use Merged Values
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
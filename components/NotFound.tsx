@@ -0,0 +1,53 @@
+import React from 'react';
+import { Customer } from '../types';
+import { ArrowLeft, SearchX, Trash2 } from 'lucide-react';
+
+interface NotFoundProps {
+  // The customer id from the URL; omitted when the path itself is unknown
+  customerId?: string;
+  path: string;
+  // Lets the page say a customer is in the Trash rather than missing
+  deletedCustomers: Customer[];
+  onBack: () => void;
+  onOpenTrash: () => void;
+}
+
+export const NotFound: React.FC<NotFoundProps> = ({ customerId, path, deletedCustomers, onBack, onOpenTrash }) => {
+  const trashed = customerId ? deletedCustomers.find(c => c.id === customerId) : undefined;
+
+  let title = 'Page not found';
+  let message = `There is nothing at ${path}.`;
+  if (trashed) {
+    title = 'Customer is in the Trash';
+    message = `"${trashed.name}" (${trashed.accountNumber}) was deleted. Restore it from the Trash to open it again.`;
+  } else if (customerId) {
+    title = 'Customer not found';
+    message = `No customer has the ID "${customerId}". It may have been merged into another customer or permanently deleted.`;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg py-16 px-6 text-center">
+      <SearchX className="mx-auto h-12 w-12 text-gray-400" />
+      <h1 className="mt-4 text-2xl font-bold text-gray-900">{title}</h1>
+      <p className="mt-2 text-sm text-gray-500 max-w-lg mx-auto">{message}</p>
+      <div className="mt-6 flex justify-center gap-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" /> Back to List
+        </button>
+        {trashed && (
+          <button
+            type="button"
+            onClick={onOpenTrash}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Trash2 className="h-4 w-4 mr-2" /> Open Trash
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
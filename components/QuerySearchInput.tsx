@@ -0,0 +1,123 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Customer } from '../types';
+import { QueryError, getQuerySuggestions } from '../services/customerQuery';
+import { AlertTriangle, Search } from 'lucide-react';
+
+interface QuerySearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  customers: Customer[];
+  errors: QueryError[];
+}
+
+export const QuerySearchInput: React.FC<QuerySearchInputProps> = ({ value, onChange, customers, errors }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => (isOpen ? getQuerySuggestions(value, cursor, customers) : []),
+    [isOpen, value, cursor, customers]
+  );
+
+  const syncCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const accept = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    const next = value.slice(0, suggestion.start) + suggestion.replacement + value.slice(suggestion.end);
+    const caret = suggestion.start + suggestion.replacement.length;
+    onChange(next);
+    setCursor(caret);
+    setHighlighted(0);
+    // Restore the caret after React writes the new value
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(highlighted);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative max-w-md w-full">
+      <div className="relative rounded-md shadow-sm">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Search className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          className={`block w-full pl-10 sm:text-sm rounded-md bg-white text-black ${
+            errors.length > 0 ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+          }`}
+          placeholder='Search, or filter e.g. type:parent vip:yes city:"Tech City"'
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart ?? e.target.value.length);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => {
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') syncCursor();
+          }}
+          onClick={syncCursor}
+          onFocus={() => {
+            syncCursor();
+            setIsOpen(true);
+          }}
+          // Leave time for a click on a suggestion to land before the list closes
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul role="listbox" className="absolute z-20 mt-1 w-full bg-white shadow-lg rounded-md py-1 ring-1 ring-black ring-opacity-5 max-h-64 overflow-y-auto">
+          {suggestions.map((s, i) => (
+            <li
+              key={`${s.label}-${i}`}
+              role="option"
+              aria-selected={i === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(i);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`px-3 py-1.5 text-sm cursor-pointer flex justify-between gap-4 ${i === highlighted ? 'bg-blue-50 text-blue-900' : 'text-gray-700'}`}
+            >
+              <span className="font-mono truncate">{s.label}</span>
+              {s.description && <span className="text-xs text-gray-400 truncate">{s.description}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {errors.map((error, i) => (
+            <li key={i} className="flex items-start text-xs text-red-600">
+              <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Route } from '../types';
+import { routeToPath } from '../services/routes';
+
+interface RouteLinkProps {
+  to: Route;
+  onNavigate: (route: Route) => void;
+  className?: string;
+  title?: string;
+  children: React.ReactNode;
+}
+
+// A real link, so it can be copied or opened in a new tab; a plain click stays in the app
+export const RouteLink: React.FC<RouteLinkProps> = ({ to, onNavigate, className, title, children }) => (
+  <a
+    href={routeToPath(to)}
+    title={title}
+    className={className}
+    onClick={(e) => {
+      if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      onNavigate(to);
+    }}
+  >
+    {children}
+  </a>
+);
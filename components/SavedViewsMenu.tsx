@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { ListViewState, SavedView } from '../types';
+import { isSameView, loadSavedViews, saveSavedViews, toSavedView } from '../services/listViewState';
+import { Bookmark, Check, Link2, Save, Trash2 } from 'lucide-react';
+
+interface SavedViewsMenuProps {
+  state: ListViewState;
+  onApply: (state: ListViewState) => void;
+  // Reports saved views that could not be read
+  onStorageError: (message: string) => void;
+}
+
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ state, onApply, onStorageError }) => {
+  const [views, setViews] = useState<SavedView[]>([]);
+  // Read once on mount; a problem is reported through the app's storage error banner
+  useEffect(() => {
+    setViews(loadSavedViews(onStorageError));
+  }, []);
+  const [isOpen, setIsOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  const activeView = views.find(v => isSameView(v.state, state));
+
+  const updateViews = (next: SavedView[]) => {
+    setViews(next);
+    saveSavedViews(next);
+  };
+
+  const handleApply = (view: SavedView) => {
+    onApply({ ...view.state, page: 1 });
+    setIsOpen(false);
+  };
+
+  // Saving under an existing name replaces that view
+  const handleSave = () => {
+    const name = viewName.trim();
+    if (!name) return;
+    updateViews([...views.filter(v => v.name !== name), toSavedView(name, state)]);
+    setViewName('');
+  };
+
+  // The list keeps its state in the URL, so the address bar already points at this list
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch {
+      window.prompt('Copy this link:', window.location.href);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+      >
+        <Bookmark className={`h-4 w-4 mr-2 ${activeView ? 'text-blue-600' : ''}`} />
+        <span className="truncate max-w-[10rem]">{activeView ? activeView.name : 'Views'}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-72 bg-white shadow-lg rounded-md ring-1 ring-black ring-opacity-5">
+          {views.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No saved views yet.</p>
+          ) : (
+            <ul className="py-1 max-h-64 overflow-y-auto">
+              {[...views].sort((a, b) => a.name.localeCompare(b.name)).map(view => (
+                <li key={view.id} className="flex items-center hover:bg-gray-50">
+                  <button
+                    type="button"
+                    onClick={() => handleApply(view)}
+                    title={view.state.query || 'All customers'}
+                    className="flex-1 min-w-0 flex items-center text-left px-4 py-2 text-sm text-gray-700"
+                  >
+                    <Check className={`h-4 w-4 mr-2 flex-shrink-0 text-blue-600 ${view === activeView ? '' : 'invisible'}`} />
+                    <span className="truncate">{view.name}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateViews(views.filter(v => v.id !== view.id))}
+                    title="Delete saved view"
+                    className="p-1.5 mr-2 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="border-t border-gray-200 p-3 space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                placeholder="Name this view"
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border-gray-300 rounded-md bg-white text-black"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!viewName.trim()}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4 mr-1" /> Save
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className="w-full inline-flex items-center justify-center px-3 py-1.5 text-sm font-medium rounded-md text-blue-600 hover:bg-blue-50"
+            >
+              {isLinkCopied ? <Check className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+              {isLinkCopied ? 'Link copied' : 'Copy link to this list'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
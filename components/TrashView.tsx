@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Customer, CustomerType } from '../types';
+import { ArrowLeft, RotateCcw, Trash2, Users, Building, AlertTriangle } from 'lucide-react';
+
+interface TrashViewProps {
+  deletedCustomers: Customer[];
+  allCustomers: Customer[];
+  onRestore: (id: string) => string | null;
+  onPurge: (ids: string[]) => void;
+  onBack: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({
+  deletedCustomers,
+  allCustomers,
+  onRestore,
+  onPurge,
+  onBack,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const sorted = [...deletedCustomers].sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+
+  const handleRestore = (id: string) => {
+    setError(onRestore(id));
+  };
+
+  const handlePurge = (customer: Customer) => {
+    if (window.confirm(`Permanently delete "${customer.name}"? You can still undo this with Ctrl+Z until the page is reloaded.`)) {
+      onPurge([customer.id]);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm(`Permanently delete all ${deletedCustomers.length} customers in the Trash?`)) {
+      onPurge(deletedCustomers.map(c => c.id));
+    }
+  };
+
+  // Children that will be re-linked on restore (those still standalone and active)
+  const getRestorableChildren = (customer: Customer) =>
+    (customer.deletedChildIds || [])
+      .map(id => allCustomers.find(c => c.id === id))
+      .filter((c): c is Customer => !!c && !c.deletedAt && !c.parentId);
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+          <p className="text-sm text-gray-500 mt-1">Deleted customers can be restored together with their linked sites.</p>
+        </div>
+        <div className="flex gap-2">
+          {deletedCustomers.length > 0 && (
+            <button
+              onClick={handleEmptyTrash}
+              className="inline-flex items-center px-4 py-2 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4 mr-2" /> Empty Trash
+            </button>
+          )}
+          <button
+            onClick={onBack}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" /> Back to List
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+          <p className="ml-3 text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {sorted.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">The Trash is empty.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account #</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Deleted</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sites to Re-link</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sorted.map(customer => {
+                const children = getRestorableChildren(customer);
+                return (
+                  <tr key={customer.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        {customer.type === CustomerType.PARENT
+                          ? <Users className="h-4 w-4 mr-2 text-purple-500" />
+                          : <Building className="h-4 w-4 mr-2 text-blue-500" />}
+                        {customer.name}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="text-sm text-gray-900 font-mono bg-gray-100 px-2 py-1 rounded">{customer.accountNumber}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {customer.deletedAt ? new Date(customer.deletedAt).toLocaleString() : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {children.length === 0 ? '-' : children.map(c => c.name).join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => handleRestore(customer.id)}
+                        className="text-green-600 hover:text-green-900 mx-2 p-1 rounded hover:bg-green-50"
+                        title="Restore"
+                      >
+                        <RotateCcw className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge(customer)}
+                        className="text-red-600 hover:text-red-900 mx-2 p-1 rounded hover:bg-red-50"
+                        title="Delete Forever"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -36,6 +36,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
       },
     ],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_2',
@@ -66,6 +68,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
       },
     ],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_3',
@@ -96,6 +100,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
       },
     ],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   // --- Retail Group ---
   {
@@ -107,6 +113,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_4', street: '1 Market Plaza', city: 'Chicago', state: 'IL', zipCode: '60601', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_5', name: 'Robert Retail', email: 'bob@nrg.com', phone: '555-1111', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_5',
@@ -118,6 +126,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_5', street: '500 North Ave', city: 'Chicago', state: 'IL', zipCode: '60610', isPrimary: true, isBilling: true, isGateProperty: true }],
     contacts: [{ id: 'cont_6', name: 'Manager Mike', email: 'mike@nrg.com', phone: '555-1112', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_6',
@@ -129,6 +139,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_6', street: '200 South Blvd', city: 'Chicago', state: 'IL', zipCode: '60616', isPrimary: true, isBilling: true, isGateProperty: true }],
     contacts: [{ id: 'cont_7', name: 'Manager Susan', email: 'susan@nrg.com', phone: '555-1113', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   
   // --- Logistics Group ---
@@ -141,6 +153,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_7', street: '88 Cargo Way', city: 'Memphis', state: 'TN', zipCode: '38116', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_8', name: 'Tom Hauler', email: 'tom@fasttrack.com', phone: '555-2222', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_8',
@@ -152,6 +166,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_8', street: '89 Cargo Way', city: 'Memphis', state: 'TN', zipCode: '38116', isPrimary: true, isBilling: true, isGateProperty: true }],
     contacts: [{ id: 'cont_9', name: 'Foreman Fred', email: 'fred@fasttrack.com', phone: '555-2223', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_9',
@@ -163,6 +179,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_9', street: '90 Cargo Way', city: 'Memphis', state: 'TN', zipCode: '38116', isPrimary: true, isBilling: true, isGateProperty: true }],
     contacts: [{ id: 'cont_10', name: 'Foreman George', email: 'george@fasttrack.com', phone: '555-2224', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
 
   // --- Independent Customers ---
@@ -176,6 +194,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_10', street: '12 Main St', city: 'Smallville', state: 'KS', zipCode: '66002', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_11', name: 'Martha Kent', email: 'martha@smallville.com', phone: '555-3333', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_11',
@@ -187,6 +207,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_11', street: '500 Build It Dr', city: 'Austin', state: 'TX', zipCode: '73301', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_12', name: 'Bob Builder', email: 'bob@apex.com', phone: '555-3334', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_12',
@@ -198,6 +220,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_12', street: '400 Garden Ln', city: 'Portland', state: 'OR', zipCode: '97201', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_13', name: 'Ivy Plant', email: 'ivy@green.com', phone: '555-3335', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_13',
@@ -209,6 +233,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_13', street: '100 Wifi Blvd', city: 'San Francisco', state: 'CA', zipCode: '94105', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_14', name: 'Tech Bro', email: 'admin@nomads.com', phone: '555-3336', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_14',
@@ -220,6 +246,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_14', street: '1 Harbor View', city: 'Miami', state: 'FL', zipCode: '33101', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_15', name: 'Captain Jack', email: 'jack@oceanic.com', phone: '555-3337', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_15',
@@ -231,6 +259,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_15', street: '500 Summit Dr', city: 'Denver', state: 'CO', zipCode: '80201', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_16', name: 'Cliff Hanger', email: 'cliff@mountain.com', phone: '555-3338', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_16',
@@ -242,6 +272,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_16', street: '50 Food Court', city: 'New York', state: 'NY', zipCode: '10001', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_17', name: 'Del Ivery', email: 'del@urban.com', phone: '555-3339', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_17',
@@ -253,6 +285,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_17', street: '99 Sun Ray Dr', city: 'Phoenix', state: 'AZ', zipCode: '85001', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_18', name: 'Sunny Day', email: 'sunny@solar.com', phone: '555-3340', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   
   // --- More Parent/Child for Pagination ---
@@ -265,6 +299,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_18', street: '1 Health Way', city: 'Boston', state: 'MA', zipCode: '02115', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_19', name: 'Dr. House', email: 'house@healthplus.com', phone: '555-4444', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_19',
@@ -276,6 +312,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_19', street: '20 Downtown St', city: 'Boston', state: 'MA', zipCode: '02110', isPrimary: true, isBilling: true, isGateProperty: true }],
     contacts: [{ id: 'cont_20', name: 'Nurse Joy', email: 'joy@healthplus.com', phone: '555-4445', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_20',
@@ -287,6 +325,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_20', street: '22 Emergency Ln', city: 'Boston', state: 'MA', zipCode: '02111', isPrimary: true, isBilling: true, isGateProperty: true }],
     contacts: [{ id: 'cont_21', name: 'Dr. Strange', email: 'strange@healthplus.com', phone: '555-4446', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
    {
     id: 'cust_21',
@@ -298,6 +338,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_21', street: '50 Science Park', city: 'Cambridge', state: 'MA', zipCode: '02139', isPrimary: true, isBilling: true, isGateProperty: true }],
     contacts: [{ id: 'cont_22', name: 'Scientist Sam', email: 'sam@healthplus.com', phone: '555-4447', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_22',
@@ -309,6 +351,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_22', street: '1 Greek Row', city: 'College Town', state: 'OH', zipCode: '45056', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_23', name: 'Chad Bro', email: 'chad@ao.com', phone: '555-5555', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_23',
@@ -320,6 +364,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_23', street: '2 Greek Row', city: 'College Town', state: 'OH', zipCode: '45056', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_24', name: 'Stacy Sis', email: 'stacy@bg.com', phone: '555-5556', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   },
   {
     id: 'cust_24',
@@ -331,6 +377,8 @@ export const INITIAL_CUSTOMERS: Customer[] = [
     addresses: [{ id: 'addr_24', street: '100 Book Rd', city: 'Reading', state: 'PA', zipCode: '19601', isPrimary: true, isBilling: true, isGateProperty: false }],
     contacts: [{ id: 'cont_25', name: 'Marian Librarian', email: 'marian@library.com', phone: '555-6666', isPrimary: true }],
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 1,
   }
 ];
 
@@ -340,4 +388,10 @@ export const EMPTY_CONTACT = {
   email: '',
   phone: '',
   isPrimary: false,
-};
\ No newline at end of file
+};
+
+// The signed-in user, recorded as the actor on audit entries
+export const CURRENT_USER = {
+  name: 'System Admin',
+  initials: 'SA',
+};
@@ -1,20 +1,213 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Customer, CustomerType, CustomerFormData, Contact } from '../types';
-import { INITIAL_CUSTOMERS } from '../constants';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { AuditAction, AuditEntry, BulkAction, ChildDisposition, Customer, CustomerType, CustomerFormData, ImportBatch, ImportSource, SaveResult } from '../types';
+import { CURRENT_USER, INITIAL_CUSTOMERS } from '../constants';
+import {
+  CustomerRepository,
+  createCustomerRepository,
+  diffCustomers,
+  applyChanges,
+} from '../services/customerRepository';
+import { isAccountNumberUnique, validateCustomer as validateCustomerRules } from '../services/customerRules';
+import { getHierarchyErrors } from '../services/hierarchy';
+import { planDelete } from '../services/customerDelete';
+import { planMerge } from '../services/customerMerge';
+import { BulkPlan, planBulkAction } from '../services/bulkActions';
+import { AUDIT_LOG_STORAGE_KEY, buildAuditEntries, loadAuditLog, saveAuditLog } from '../services/auditLog';
+import { isStale, stampVersions } from '../services/recordVersions';
+import {
+  IMPORT_BATCHES_STORAGE_KEY,
+  RollbackPlan,
+  applyRollback,
+  loadImportBatches,
+  planRollback,
+  saveImportBatches,
+} from '../services/importBatches';
+import { CrossTabChannel, CrossTabMessage, mergeRemoteChanges, openCrossTabChannel } from '../services/crossTabSync';
+import { SearchIndex, createSearchIndex } from '../services/searchIndex';
 
-export const useCustomerData = () => {
-  // Persist to local storage or fall back to initial data
-  const [customers, setCustomers] = useState<Customer[]>(() => {
-    const saved = localStorage.getItem('customer_db_v2'); // Changed key to force refresh for new schema or handle migration logic manually
-    return saved ? JSON.parse(saved) : INITIAL_CUSTOMERS;
-  });
+const defaultRepository = createCustomerRepository();
+// Session-level undo depth; older snapshots are dropped
+const MAX_UNDO_STEPS = 50;
 
+export const useCustomerData = (repository: CustomerRepository = defaultRepository) => {
+  // Every stored record, including customers sitting in the Trash
+  const [records, setRecords] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const auditLogRef = useRef<AuditEntry[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+
+  // Mirrors `records` so mutations can diff against the latest list without waiting for a render
+  const recordsRef = useRef<Customer[]>([]);
+  // Snapshots of `records` taken before each mutation (undo) and before each undo (redo)
+  const undoStackRef = useRef<Customer[][]>([]);
+  const redoStackRef = useRef<Customer[][]>([]);
+  const [historyDepth, setHistoryDepth] = useState({ undo: 0, redo: 0 });
+  const channelRef = useRef<CrossTabChannel | null>(null);
+  // Full-text index over the active customers, updated with every change set rather than rebuilt
+  const [searchIndex] = useState<SearchIndex>(() => createSearchIndex());
+
+  const customers = useMemo(() => records.filter((c) => !c.deletedAt), [records]);
+  const deletedCustomers = useMemo(() => records.filter((c) => !!c.deletedAt), [records]);
+  // Writes are chained so the backend always sees them in the order they were made
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Read the audit log and import history kept in this browser; corrupt ones are reported like any other storage problem
   useEffect(() => {
-    localStorage.setItem('customer_db_v2', JSON.stringify(customers));
-  }, [customers]);
+    const log = loadAuditLog(setStorageError);
+    auditLogRef.current = log;
+    setAuditLog(log);
+    setImportBatches(loadImportBatches(setStorageError));
+  }, []);
+
+  // Load from the configured backend, seeding it with the initial data on first run
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    repository.load((message) => {
+      if (!cancelled) setStorageError(message);
+    })
+      .then(async (stored) => {
+        if (stored) return stored;
+        await repository.create(INITIAL_CUSTOMERS);
+        return INITIAL_CUSTOMERS;
+      })
+      .then((loaded) => {
+        if (cancelled) return;
+        recordsRef.current = loaded;
+        searchIndex.reset(loaded);
+        setRecords(loaded);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setStorageError(`Could not load customers from ${repository.backend}: ${err.message}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repository]);
+
+  // Merge in changes made by other open tabs so neither tab overwrites the other's edits
+  useEffect(() => {
+    const appendAuditEntries = (entries: AuditEntry[]) => {
+      if (entries.length === 0) return;
+      const nextLog = [...auditLogRef.current, ...entries];
+      auditLogRef.current = nextLog;
+      setAuditLog(nextLog);
+    };
+
+    const handleRemoteChanges = ({ changes, auditEntries }: CrossTabMessage) => {
+      const next = mergeRemoteChanges(recordsRef.current, changes);
+      recordsRef.current = next;
+      searchIndex.apply(changes);
+      setRecords(next);
+      // Rebase the undo history so undoing a local change never reverts another tab's work
+      undoStackRef.current = undoStackRef.current.map((snapshot) => mergeRemoteChanges(snapshot, changes));
+      redoStackRef.current = redoStackRef.current.map((snapshot) => mergeRemoteChanges(snapshot, changes));
+      appendAuditEntries(auditEntries);
+    };
+
+    // Without BroadcastChannel we only learn that storage changed, so reload from the backend
+    const handleRemoteStorageChange = (key: string) => {
+      if (key === AUDIT_LOG_STORAGE_KEY) {
+        const log = loadAuditLog(setStorageError);
+        auditLogRef.current = log;
+        setAuditLog(log);
+        return;
+      }
+      if (key === IMPORT_BATCHES_STORAGE_KEY) {
+        setImportBatches(loadImportBatches(setStorageError));
+        return;
+      }
+      repository.load(setStorageError)
+        .then((loaded) => {
+          if (!loaded) return;
+          recordsRef.current = loaded;
+          searchIndex.reset(loaded);
+          setRecords(loaded);
+          undoStackRef.current = [];
+          redoStackRef.current = [];
+          setHistoryDepth({ undo: 0, redo: 0 });
+        })
+        .catch((err: Error) => {
+          setStorageError(`Could not reload customers from ${repository.backend}: ${err.message}`);
+        });
+    };
+
+    const channel = openCrossTabChannel(handleRemoteChanges, handleRemoteStorageChange);
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [repository]);
+
+  // Applies a new record list: updates state, records an audit entry per affected record and persists the diff.
+  // `primaryId` is the record the user acted on (or several, for a bulk action); other changed records are
+  // logged as its side effects.
+  const applyRecords = (nextRecords: Customer[], action: AuditAction, primaryId: string | string[] | null) => {
+    const prev = recordsRef.current;
+    const next = stampVersions(prev, nextRecords);
+    const changes = diffCustomers(prev, next);
+    recordsRef.current = next;
+    searchIndex.apply(changes);
+    setRecords(next);
+
+    const entries = buildAuditEntries(prev, changes, action, primaryId, CURRENT_USER.name);
+    if (entries.length > 0) {
+      const nextLog = [...auditLogRef.current, ...entries];
+      auditLogRef.current = nextLog;
+      setAuditLog(nextLog);
+      saveAuditLog(nextLog);
+    }
+
+    channelRef.current?.publish(changes, entries);
+
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => applyChanges(repository, changes))
+      .catch((err: Error) => {
+        setStorageError(`Could not save changes to ${repository.backend}: ${err.message}`);
+      });
+  };
+
+  const syncHistoryDepth = () => {
+    setHistoryDepth({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  };
+
+  // Every user mutation goes through here so it can be undone
+  const commit = (next: Customer[], action: AuditAction, primaryId: string | string[] | null) => {
+    undoStackRef.current = [...undoStackRef.current, recordsRef.current].slice(-MAX_UNDO_STEPS);
+    redoStackRef.current = [];
+    applyRecords(next, action, primaryId);
+    syncHistoryDepth();
+  };
+
+  const undo = () => {
+    const previous = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!previous) return;
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    redoStackRef.current = [...redoStackRef.current, recordsRef.current];
+    applyRecords(previous, 'UNDO', null);
+    syncHistoryDepth();
+  };
+
+  const redo = () => {
+    const next = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!next) return;
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    undoStackRef.current = [...undoStackRef.current, recordsRef.current];
+    applyRecords(next, 'REDO', null);
+    syncHistoryDepth();
+  };
 
+  // Any customer can have sub-accounts, so every active customer is a candidate parent
   const getParents = useCallback(() => {
-    return customers.filter((c) => c.type === CustomerType.PARENT);
+    return customers;
   }, [customers]);
 
   const getDirectCustomers = useCallback(() => {
@@ -22,160 +215,272 @@ export const useCustomerData = () => {
   }, [customers]);
 
   const checkAccountNumberUnique = useCallback((accountNumber: string, excludeId?: string) => {
-    return !customers.some(
-      (c) => c.accountNumber === accountNumber && c.id !== excludeId
-    );
+    return isAccountNumberUnique(customers, accountNumber, excludeId);
   }, [customers]);
 
-  const validateCustomer = (data: CustomerFormData, existingId?: string): string[] => {
-    const errors: string[] = [];
-
-    // Basic Fields
-    if (!data.name.trim()) errors.push('Customer Name is required.');
-    if (!data.accountNumber.trim()) errors.push('Account Number is required.');
-    
-    if (!checkAccountNumberUnique(data.accountNumber, existingId)) {
-      errors.push(`Account Number '${data.accountNumber}' is already in use.`);
-    }
-
-    // Address Validation
-    if (data.addresses.length === 0) {
-      errors.push('At least one address is required.');
-    } else {
-        const primaryCount = data.addresses.filter(a => a.isPrimary).length;
-        if (primaryCount === 0) errors.push('You must designate exactly one Primary Location address.');
-        if (primaryCount > 1) errors.push('Only one address can be marked as the Primary Location.');
-
-        const billingCount = data.addresses.filter(a => a.isBilling).length;
-        if (billingCount === 0) errors.push('You must designate exactly one Billing Address.');
-        if (billingCount > 1) errors.push('Only one address can be marked as the Billing Address.');
-
-        data.addresses.forEach((addr, idx) => {
-            const hasStreet = !!addr.street?.trim();
-            const hasLatLong = !!addr.latitude?.trim() && !!addr.longitude?.trim();
-            
-            if (!hasStreet && !hasLatLong) {
-                errors.push(`Address #${idx + 1}: Must provide either Street Address OR Latitude + Longitude.`);
-            }
-            if (!addr.city.trim()) errors.push(`Address #${idx + 1}: City is required.`);
-            if (!addr.state.trim()) errors.push(`Address #${idx + 1}: State is required.`);
-            if (!addr.zipCode.trim()) errors.push(`Address #${idx + 1}: Zip Code is required.`);
-        });
-    }
-
-    // Contact Validation
-    if (data.contacts.length === 0) {
-      errors.push('At least one contact person is required.');
-    } else {
-        const primaryContacts = data.contacts.filter((c) => c.isPrimary).length;
-        if (primaryContacts === 0) errors.push('You must designate exactly one Primary Contact.');
-        if (primaryContacts > 1) errors.push('Only one contact can be marked as Primary.');
-        
-        data.contacts.forEach((c, idx) => {
-            if(!c.name.trim()) errors.push(`Contact #${idx + 1}: Name is required.`);
-            if(!c.email.trim()) errors.push(`Contact #${idx + 1}: Email is required.`);
-            if(!c.phone.trim()) errors.push(`Contact #${idx + 1}: Phone is required.`);
-        });
-    }
-
-    if (data.type === CustomerType.PARENT && data.parentId) {
-       errors.push('A Parent Customer cannot have a Parent.');
-    }
+  const getCustomerHistory = useCallback((id: string) => {
+    return auditLog.filter((entry) => entry.customerId === id).reverse();
+  }, [auditLog]);
 
-    return errors;
+  const validateCustomer = (data: CustomerFormData, existingId?: string, childIds?: string[]): string[] => {
+    return validateCustomerRules(data, records, existingId, childIds);
   };
 
   const addCustomer = (data: CustomerFormData, childIdsToLink: string[] = []) => {
+    const now = new Date().toISOString();
     const newCustomer: Customer = {
       ...data,
       id: `cust_${Date.now()}`,
-      createdAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
       // Ensure undefined is handled for non-direct types
       parentId: data.type === CustomerType.DIRECT ? data.parentId : undefined,
     };
 
-    setCustomers((prev) => {
-      let updated = [...prev, newCustomer];
-      
-      // If creating a parent, we might need to link existing direct customers to this new parent
-      if (data.type === CustomerType.PARENT && childIdsToLink.length > 0) {
-        updated = updated.map(c => {
-          if (childIdsToLink.includes(c.id)) {
-            // When linking a child, we must ensure it is marked as DIRECT and assigned the parent
-            return { ...c, parentId: newCustomer.id, type: CustomerType.DIRECT };
-          }
-          return c;
-        });
-      }
-      return updated;
+    let updated = [...recordsRef.current, newCustomer];
+
+    // Link the chosen sub-accounts to the new customer, at whatever level it sits
+    if (childIdsToLink.length > 0) {
+      updated = updated.map(c => {
+        if (childIdsToLink.includes(c.id) && !c.deletedAt) {
+          // When linking a child, we must ensure it is marked as DIRECT and assigned the parent
+          return { ...c, parentId: newCustomer.id, type: CustomerType.DIRECT };
+        }
+        return c;
+      });
+    }
+    commit(updated, 'CREATE', newCustomer.id);
+  };
+
+  // Re-reads the stored list first so a batch recorded by another tab is not overwritten
+  const updateImportBatches = (update: (batches: ImportBatch[]) => ImportBatch[]) => {
+    const next = update(loadImportBatches(setStorageError));
+    setImportBatches(next);
+    saveImportBatches(next);
+  };
+
+  // Updates carry the version they were previewed against; customers edited or trashed since then
+  // are left alone. Returns the names of the customers that were skipped.
+  const importCustomers = (newCustomers: Customer[], updatedCustomers: Customer[], source: ImportSource): string[] => {
+    const currentById = new Map<string, Customer>(recordsRef.current.map(c => [c.id, c]));
+    const applicable = new Map<string, Customer>(
+      updatedCustomers
+        .filter(u => {
+          const current = currentById.get(u.id);
+          return current && !current.deletedAt && !isStale(current, u.version);
+        })
+        .map(u => [u.id, u])
+    );
+
+    if (newCustomers.length > 0 || applicable.size > 0) {
+      const batch: ImportBatch = {
+        ...source,
+        id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+        importedAt: new Date().toISOString(),
+        actor: CURRENT_USER.name,
+        createdCount: newCustomers.length,
+        updatedBefore: [...applicable.keys()].map(id => currentById.get(id)!),
+      };
+      const created = newCustomers.map(c => ({ ...c, importBatchId: batch.id }));
+      commit([...recordsRef.current.map(c => applicable.get(c.id) || c), ...created], 'IMPORT', null);
+      updateImportBatches(batches => [...batches, batch]);
+    }
+    return updatedCustomers.filter(u => !applicable.has(u.id)).map(u => u.name);
+  };
+
+  const getRollbackPlan = (batchId: string): RollbackPlan | null => {
+    const batch = importBatches.find(b => b.id === batchId);
+    return batch ? planRollback(recordsRef.current, batch) : null;
+  };
+
+  // Removes what the batch created and reverts what it updated, as one undoable step
+  const rollbackImportBatch = (batchId: string) => {
+    const batch = importBatches.find(b => b.id === batchId);
+    if (!batch || batch.rolledBackAt) return;
+
+    commit(applyRollback(recordsRef.current, planRollback(recordsRef.current, batch)), 'ROLLBACK', null);
+    const rolledBackAt = new Date().toISOString();
+    updateImportBatches(batches => batches.map(b => (b.id === batchId ? { ...b, rolledBackAt } : b)));
+  };
+
+  // `baseVersion` is the version the edit started from; the save is rejected if the record has moved on since
+  const updateCustomer = (
+    id: string,
+    data: CustomerFormData,
+    childIdsToLink: string[] = [],
+    baseVersion?: number
+  ): SaveResult => {
+    const current = recordsRef.current.find((c) => c.id === id);
+    if (!current || current.deletedAt) {
+      return { ok: false, deleted: true };
+    }
+    if (isStale(current, baseVersion)) {
+      return { ok: false, conflict: current };
+    }
+
+    let updated = recordsRef.current.map((c) => (c.id === id ? { ...c, ...data } : c));
+
+    // Re-link sub-accounts; a customer at any level may have them
+    // 1. Unassign any children that are NO LONGER in the childIdsToLink list but were previously assigned to this customer
+    updated = updated.map(c => {
+        // Children in the Trash keep their link so a restore puts them back under this parent
+        if(c.parentId === id && !childIdsToLink.includes(c.id) && !c.deletedAt) {
+            // Unassign: Remove parentId and revert to PARENT (Independent)
+            return { ...c, parentId: null, type: CustomerType.PARENT }; 
+        }
+        return c;
     });
+
+    // 2. Assign new children
+    updated = updated.map(c => {
+        // Already-linked children are left untouched so their version does not change
+        if(childIdsToLink.includes(c.id) && !c.deletedAt && (c.parentId !== id || c.type !== CustomerType.DIRECT)) {
+            // Assign: Set parentId and force type to DIRECT
+            return { ...c, parentId: id, type: CustomerType.DIRECT };
+        }
+        return c;
+    });
+
+    commit(updated, 'UPDATE', id);
+    return { ok: true };
   };
 
-  const batchAddCustomers = (newCustomers: Customer[]) => {
-    setCustomers(prev => [...prev, ...newCustomers]);
-  };
-
-  const updateCustomer = (id: string, data: CustomerFormData, childIdsToLink: string[] = []) => {
-    setCustomers((prev) => {
-      let updated = prev.map((c) => (c.id === id ? { ...c, ...data } : c));
-      
-      // Handle Parent Re-linking logic if this is a parent
-      if (data.type === CustomerType.PARENT) {
-         // 1. Unassign any children that are NO LONGER in the childIdsToLink list but were previously assigned to this parent
-         updated = updated.map(c => {
-             if(c.parentId === id && !childIdsToLink.includes(c.id)) {
-                 // Unassign: Remove parentId and revert to PARENT (Independent)
-                 return { ...c, parentId: null, type: CustomerType.PARENT }; 
-             }
-             return c;
-         });
-
-         // 2. Assign new children
-         updated = updated.map(c => {
-             if(childIdsToLink.includes(c.id)) {
-                 // Assign: Set parentId and force type to DIRECT
-                 return { ...c, parentId: id, type: CustomerType.DIRECT };
-             }
-             return c;
-         });
-      }
+  // Re-parents a customer (null makes it standalone) through updateCustomer, so the type follows the
+  // same rules as a form save. Its own sub-accounts move with it. Returns an error message when the move is not allowed.
+  const moveCustomer = (id: string, parentId: string | null): string | null => {
+    const current = recordsRef.current.find((c) => c.id === id && !c.deletedAt);
+    if (!current) return 'This customer no longer exists.';
+    if ((current.parentId || null) === parentId) return null;
+
+    const planned = recordsRef.current.map((c) => (c.id === id ? { ...c, parentId } : c));
+    const hierarchyErrors = getHierarchyErrors(planned, id);
+    if (hierarchyErrors.length > 0) return hierarchyErrors.join(' ');
+
+    const data: CustomerFormData = {
+      type: parentId ? CustomerType.DIRECT : CustomerType.PARENT,
+      name: current.name,
+      accountNumber: current.accountNumber,
+      isVip: current.isVip,
+      addresses: current.addresses,
+      parentId,
+      contacts: current.contacts,
+    };
+    const childIds = recordsRef.current.filter((c) => c.parentId === id && !c.deletedAt).map((c) => c.id);
+    updateCustomer(id, data, childIds, current.version);
+    return null;
+  };
+
+  // Soft delete: the customer moves to the Trash and can be restored with its child links.
+  // `dispositions` says what happens to each sub-account; by default they become standalone.
+  // Returns an error message when the choices cannot be applied.
+  const deleteCustomer = (id: string, dispositions: Record<string, ChildDisposition> = {}): string | null => {
+    const customer = recordsRef.current.find((c) => c.id === id && !c.deletedAt);
+    if (!customer) return 'This customer is no longer available.';
+
+    const plan = planDelete(recordsRef.current, id, dispositions);
+    if (plan.errors.length > 0) return plan.errors.join(' ');
+    commit(plan.records, 'DELETE', id);
+    return null;
+  };
+
+  // Returns an error message when the customer cannot be restored
+  const restoreCustomer = (id: string): string | null => {
+    const customer = recordsRef.current.find((c) => c.id === id && c.deletedAt);
+    if (!customer) return 'This customer is no longer in the Trash.';
 
-      return updated;
+    if (!isAccountNumberUnique(recordsRef.current, customer.accountNumber, id)) {
+      return `Account Number '${customer.accountNumber}' has since been given to another customer.`;
+    }
+
+    // Only re-link children that are still active and have not been given another parent since
+    const relinkIds = (customer.deletedChildIds || []).filter((childId) => {
+      const child = recordsRef.current.find((c) => c.id === childId);
+      return !!child && !child.deletedAt && !child.parentId;
+    });
+    // A restored child whose parent is gone, or that no longer fits under it, comes back as a standalone account
+    let updatedList = recordsRef.current.map((c) => (c.id === id ? { ...c, deletedAt: null, deletedChildIds: undefined } : c));
+    const parent = recordsRef.current.find((c) => c.id === customer.parentId);
+    const keepParent = !!parent && !parent.deletedAt && getHierarchyErrors(updatedList, id).length === 0;
+    if (!keepParent) {
+      updatedList = updatedList.map((c) => (c.id === id ? { ...c, parentId: null, type: CustomerType.PARENT } : c));
+    }
+
+    // Children that would now loop back or sit too deep stay standalone
+    relinkIds.forEach((childId) => {
+      const linked = updatedList.map((c) => (c.id === childId ? { ...c, parentId: id, type: CustomerType.DIRECT } : c));
+      if (getHierarchyErrors(linked, childId).length === 0) updatedList = linked;
     });
+    commit(updatedList, 'RESTORE', id);
+    return null;
   };
 
-  const deleteCustomer = (id: string) => {
-    const customer = customers.find((c) => c.id === id);
-    if (!customer) return;
+  // Folds `loserId` into `survivorId`, which takes `data`. `baseVersions` are the versions of both records
+  // the merge screen was built from. Returns an error message when the merge cannot be applied.
+  const mergeCustomers = (
+    survivorId: string,
+    loserId: string,
+    data: CustomerFormData,
+    baseVersions: Record<string, number>
+  ): string | null => {
+    const changed = recordsRef.current.some((c) => (c.id === survivorId || c.id === loserId) && isStale(c, baseVersions[c.id]));
+    if (changed) return 'One of these customers was changed while you were merging. Review them again before merging.';
 
-    if (customer.type === CustomerType.PARENT) {
-      // Logic: Auto-convert children to standalone direct customers (which now means Independent Parents)
-      setCustomers((prev) => {
-        // First, update children to remove parentId and set to Independent (Type PARENT)
-        const updatedList = prev.map((c) => {
-          if (c.parentId === id) {
-            return { ...c, parentId: null, type: CustomerType.PARENT };
-          }
-          return c;
-        });
-        // Then remove the parent
-        return updatedList.filter((c) => c.id !== id);
-      });
-    } else {
-      // Direct customer - simple delete
-      setCustomers((prev) => prev.filter((c) => c.id !== id));
+    const plan = planMerge(recordsRef.current, survivorId, loserId, data);
+    if (plan.errors.length > 0) return plan.errors.join(' ');
+    commit(plan.records, 'MERGE', survivorId);
+    return null;
+  };
+
+  // Applies one action to every selected customer as a single undoable step. Customers a rule blocks
+  // are left as they are and reported in the returned plan.
+  const applyBulkAction = (ids: string[], action: BulkAction): BulkPlan => {
+    const plan = planBulkAction(recordsRef.current, ids, action);
+    if (plan.applied.length > 0) {
+      commit(plan.records, action.type === 'DELETE' ? 'DELETE' : 'UPDATE', plan.applied.map((c) => c.id));
     }
+    return plan;
+  };
+
+  const purgeCustomers = (ids: string[]) => {
+    const purgeable = recordsRef.current.filter((c) => ids.includes(c.id) && c.deletedAt).map((c) => c.id);
+    if (purgeable.length === 0) return;
+    commit(
+      recordsRef.current.filter((c) => !purgeable.includes(c.id)),
+      'PURGE',
+      purgeable.length === 1 ? purgeable[0] : null
+    );
   };
 
   return {
     customers,
+    deletedCustomers,
+    isLoading,
+    storageError,
+    // For screens that keep their own data in local storage, e.g. saved column mappings
+    reportStorageError: setStorageError,
+    auditLog,
+    getCustomerHistory,
     getParents,
     getDirectCustomers,
     checkAccountNumberUnique,
     validateCustomer,
     addCustomer,
-    batchAddCustomers,
+    importCustomers,
+    importBatches,
+    getRollbackPlan,
+    rollbackImportBatch,
     updateCustomer,
+    moveCustomer,
     deleteCustomer,
+    restoreCustomer,
+    mergeCustomers,
+    applyBulkAction,
+    purgeCustomers,
+    undo,
+    redo,
+    canUndo: historyDepth.undo > 0,
+    canRedo: historyDepth.redo > 0,
+    searchIndex,
   };
 };
\ No newline at end of file
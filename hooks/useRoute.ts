@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Route } from '../types';
+import { parseRoute, routeToPath } from '../services/routes';
+
+interface NavigateOptions {
+  // Swap the current history entry instead of adding one, e.g. after saving a form
+  replace?: boolean;
+}
+
+// Keeps the screen in step with the address bar: navigating pushes a history entry, and the browser's
+// back and forward buttons switch screens.
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+  // The list keeps its search in the query string; remembered so going back to the list restores it
+  const listSearchRef = useRef(route.name === 'LIST' ? window.location.search : '');
+
+  useEffect(() => {
+    if (window.location.pathname === '/') {
+      window.history.replaceState(window.history.state, '', `${routeToPath({ name: 'LIST' })}${window.location.search}${window.location.hash}`);
+    }
+
+    const handlePopState = () => {
+      const next = parseRoute(window.location.pathname);
+      if (next.name === 'LIST') listSearchRef.current = window.location.search;
+      setRoute(next);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  const navigate = useCallback((next: Route, options: NavigateOptions = {}) => {
+    if (parseRoute(window.location.pathname).name === 'LIST') listSearchRef.current = window.location.search;
+
+    const url = `${routeToPath(next)}${next.name === 'LIST' ? listSearchRef.current : ''}`;
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      if (options.replace) window.history.replaceState(null, '', url);
+      else window.history.pushState(null, '', url);
+      window.scrollTo(0, 0);
+    }
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+// Binds Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to the store's undo and redo.
+// Text fields keep their native undo so typing is not affected.
+export const useUndoShortcuts = (undo: () => void, redo: () => void) => {
+  // The handlers change every render; keep the latest without re-binding the listener
+  const handlersRef = useRef({ undo, redo });
+  useEffect(() => {
+    handlersRef.current = { undo, redo };
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) handlersRef.current.redo();
+      else handlersRef.current.undo();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+};
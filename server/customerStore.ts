@@ -0,0 +1,66 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { Customer } from '../types';
+import { INITIAL_CUSTOMERS } from '../constants';
+import { parsePersistedCustomers, serializeCustomers } from '../services/migrations';
+
+export interface CustomerStore {
+  // The customers as last written to disk
+  all: () => Customer[];
+  // Runs `change` against the latest customers once every earlier change is on disk, then writes its result.
+  // A change that throws leaves the store untouched and is rejected with that error.
+  update: <T>(change: (customers: Customer[]) => { customers: Customer[]; result: T }) => Promise<T>;
+}
+
+const readStoredCustomers = async (filePath: string): Promise<Customer[] | null> => {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+
+  try {
+    return parsePersistedCustomers(raw, 2);
+  } catch (err) {
+    // Keep the unreadable file around for manual recovery and start from the seed data
+    const backupPath = `${filePath}.quarantine-${Date.now()}`;
+    await rename(filePath, backupPath);
+    console.warn(`Customer data in ${filePath} could not be loaded and was moved to ${backupPath}.`, err);
+    return null;
+  }
+};
+
+export const openCustomerStore = async (filePath: string): Promise<CustomerStore> => {
+  await mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so a crash mid-write cannot leave a truncated database
+  const write = async (next: Customer[]) => {
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, serializeCustomers(next), 'utf8');
+    await rename(tempPath, filePath);
+  };
+
+  let customers = (await readStoredCustomers(filePath)) || INITIAL_CUSTOMERS;
+  await write(customers);
+
+  // Changes are chained so each one sees the result of the one before, and a failed one does not block the rest
+  let changeQueue: Promise<unknown> = Promise.resolve();
+
+  const update = <T>(change: (current: Customer[]) => { customers: Customer[]; result: T }) => {
+    const next = changeQueue.then(async () => {
+      const { customers: changed, result } = change(customers);
+      await write(changed);
+      customers = changed;
+      return result;
+    });
+    changeQueue = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    all: () => customers,
+    update,
+  };
+};
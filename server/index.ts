@@ -0,0 +1,336 @@
+import http from 'node:http';
+import path from 'node:path';
+import { Address, Contact, Customer, CustomerFormData, CustomerType } from '../types';
+import { validateCustomer } from '../services/customerRules';
+import { createHierarchyCheck } from '../services/hierarchy';
+import { CustomerStore, openCustomerStore } from './customerStore';
+
+const PORT = Number(process.env.PORT) || 4000;
+const DATA_FILE = process.env.CUSTOMER_DB_FILE || path.resolve(process.cwd(), 'server/data/customers.json');
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, If-Match',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJsonBody = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined);
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readObject = (value: unknown, what: string): JsonObject => {
+  if (!isJsonObject(value)) throw new HttpError(400, `Expected ${what} object.`);
+  return value;
+};
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+const textList = (value: unknown) => (Array.isArray(value) ? value.map(String) : undefined);
+
+// Ids are random so addresses and contacts created in the same request, or the same millisecond, never share one
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Coerces an untrusted request body into the shape the shared validation rules expect
+const readCustomerInput = (body: JsonObject): CustomerFormData => {
+  if (body.type !== CustomerType.DIRECT && body.type !== CustomerType.PARENT) {
+    throw new HttpError(400, `Customer type must be '${CustomerType.DIRECT}' or '${CustomerType.PARENT}'.`);
+  }
+
+  const addresses: Address[] = (Array.isArray(body.addresses) ? body.addresses : []).map((item: unknown) => {
+    const a = readObject(item, 'an address');
+    return {
+      id: a.id ? text(a.id) : newId('addr'),
+      street: text(a.street),
+      latitude: text(a.latitude),
+      longitude: text(a.longitude),
+      city: text(a.city),
+      state: text(a.state),
+      zipCode: text(a.zipCode),
+      isPrimary: !!a.isPrimary,
+      isBilling: !!a.isBilling,
+      isGateProperty: !!a.isGateProperty,
+    };
+  });
+  const contacts: Contact[] = (Array.isArray(body.contacts) ? body.contacts : []).map((item: unknown) => {
+    const c = readObject(item, 'a contact');
+    return {
+      id: c.id ? text(c.id) : newId('cont'),
+      name: text(c.name),
+      email: text(c.email),
+      phone: text(c.phone),
+      isPrimary: !!c.isPrimary,
+    };
+  });
+
+  return {
+    type: body.type,
+    name: text(body.name),
+    accountNumber: text(body.accountNumber),
+    isVip: !!body.isVip,
+    addresses,
+    parentId: body.parentId ? text(body.parentId) : null,
+    contacts,
+  };
+};
+
+// Runs the shared rules plus the parent checks that only matter once records leave the browser.
+// `knownIds` are the ids a parentId may point at.
+const checkCustomer = (data: CustomerFormData, customers: Customer[], knownIds: Set<string>, existingId?: string) => {
+  // Loops and depth limits are part of the shared rules
+  const errors = validateCustomer(data, customers, existingId);
+  if (data.parentId && data.parentId !== existingId && !knownIds.has(data.parentId)) {
+    errors.push(`Parent customer '${data.parentId}' was not found.`);
+  }
+  return errors;
+};
+
+const idsOf = (customers: Customer[]) => new Set(customers.map(c => c.id));
+
+// Trash state, the import tag and merged account aliases travel with the record, since the app saves through PUT
+const buildCustomer = (
+  data: CustomerFormData,
+  body: JsonObject,
+  meta: { id: string; createdAt: string; version: number }
+): Customer => ({
+  ...data,
+  ...meta,
+  updatedAt: new Date().toISOString(),
+  parentId: data.type === CustomerType.DIRECT ? data.parentId : undefined,
+  deletedAt: body.deletedAt ? String(body.deletedAt) : null,
+  deletedChildIds: textList(body.deletedChildIds),
+  importBatchId: body.importBatchId ? String(body.importBatchId) : undefined,
+  accountAliases: textList(body.accountAliases),
+});
+
+// A new record keeps the version it arrives with (an undone delete re-creates the record at its old version)
+const readVersion = (value: unknown) => (typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : 1);
+
+// `If-Match: "3"` names the version an update was made from; weak and unquoted forms are accepted too
+const readBaseVersion = (header: string | string[] | undefined) => {
+  const value = Array.isArray(header) ? header[0] : header;
+  const version = value ? Number(value.trim().replace(/^W\//, '').replace(/"/g, '')) : NaN;
+  if (!Number.isInteger(version)) {
+    throw new HttpError(428, 'Updates must send an If-Match header with the version they were made from.');
+  }
+  return version;
+};
+
+const newCustomerId = () => `cust_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+
+const findCustomer = (customers: Customer[], id: string) => {
+  const customer = customers.find(c => c.id === id);
+  if (!customer) throw new HttpError(404, `Customer '${id}' was not found.`);
+  return customer;
+};
+
+const handleCreate = (store: CustomerStore, input: unknown) => {
+  const body = readObject(input, 'a customer');
+  const data = readCustomerInput(body);
+  const id = body.id ? String(body.id) : newCustomerId();
+
+  return store.update((customers) => {
+    if (customers.some(c => c.id === id)) {
+      throw new HttpError(409, `Customer '${id}' already exists.`);
+    }
+
+    const errors = checkCustomer(data, customers, idsOf(customers));
+    if (errors.length > 0) throw new HttpError(422, 'Customer is invalid.', errors);
+
+    const customer = buildCustomer(data, body, {
+      id,
+      createdAt: body.createdAt ? String(body.createdAt) : new Date().toISOString(),
+      version: readVersion(body.version),
+    });
+    return { customers: [...customers, customer], result: customer };
+  });
+};
+
+// Optimistic concurrency: the update only applies if it was made from the stored version,
+// which proves the client edited the latest copy. The server assigns the next version.
+const handleUpdate = (store: CustomerStore, id: string, input: unknown, baseVersion: number) => {
+  const body = readObject(input, 'a customer');
+  const data = readCustomerInput(body);
+
+  return store.update((customers) => {
+    const existing = findCustomer(customers, id);
+    if ((existing.version || 0) !== baseVersion) {
+      throw new HttpError(409, `Customer '${id}' was changed by someone else (stored version ${existing.version}).`, existing);
+    }
+    const expectedVersion = (existing.version || 0) + 1;
+
+    const errors = checkCustomer(data, customers, idsOf(customers), id);
+    if (errors.length > 0) throw new HttpError(422, 'Customer is invalid.', errors);
+
+    const customer = buildCustomer(data, body, { id, createdAt: existing.createdAt, version: expectedVersion });
+    return { customers: customers.map(c => (c.id === id ? customer : c)), result: customer };
+  });
+};
+
+// Mirrors useCustomerData: children of a deleted parent become standalone accounts
+const handleDelete = (store: CustomerStore, id: string) =>
+  store.update((customers) => {
+    findCustomer(customers, id);
+    const next = customers
+      .filter(c => c.id !== id)
+      .map(c => (c.parentId === id
+        ? { ...c, parentId: null, type: CustomerType.PARENT, version: (c.version || 0) + 1, updatedAt: new Date().toISOString() }
+        : c));
+    return { customers: next, result: undefined };
+  });
+
+// All-or-nothing: rows may reference parents created elsewhere in the same batch
+const handleImport = (store: CustomerStore, input: unknown) => {
+  const items = Array.isArray(input) ? input : isJsonObject(input) ? input.customers : undefined;
+  if (!Array.isArray(items) || items.length === 0) throw new HttpError(400, 'Expected a non-empty array of customers.');
+
+  const failures: { index: number; accountNumber: string; errors: string[] }[] = [];
+  const prepared: { index: number; id: string; createdAt: string; data: CustomerFormData; body: JsonObject }[] = [];
+  items.forEach((item: unknown, index: number) => {
+    try {
+      const body = readObject(item, 'a customer');
+      prepared.push({
+        index,
+        id: body.id ? String(body.id) : newCustomerId(),
+        createdAt: body.createdAt ? String(body.createdAt) : new Date().toISOString(),
+        data: readCustomerInput(body),
+        body,
+      });
+    } catch (err) {
+      const accountNumber = isJsonObject(item) ? text(item.accountNumber) : '';
+      failures.push({ index, accountNumber, errors: [(err as Error).message] });
+    }
+  });
+
+  return store.update((customers) => {
+    const storedIds = idsOf(customers);
+    const knownIds = new Set([...storedIds, ...prepared.map(p => p.id)]);
+    const accepted: Customer[] = [];
+    const rowFailures = [...failures];
+    prepared.forEach(({ index, id, createdAt, data, body }) => {
+      // Account numbers must be unique against the store and the rows accepted before this one
+      const errors = checkCustomer(data, [...customers, ...accepted], knownIds);
+      if (storedIds.has(id) || accepted.some(c => c.id === id)) {
+        errors.push(`Customer '${id}' already exists.`);
+      }
+
+      if (errors.length > 0) rowFailures.push({ index, accountNumber: data.accountNumber, errors });
+      else accepted.push(buildCustomer(data, body, { id, createdAt, version: readVersion(body.version) }));
+    });
+
+    // Rows checked before their parent was accepted only saw part of the hierarchy
+    const hierarchyErrors = createHierarchyCheck([...customers, ...accepted]);
+    prepared.forEach(({ index, id, data }) => {
+      const errors = accepted.some(c => c.id === id) ? hierarchyErrors(id) : [];
+      if (errors.length > 0) rowFailures.push({ index, accountNumber: data.accountNumber, errors });
+    });
+
+    if (rowFailures.length > 0) {
+      throw new HttpError(422, 'Import rejected.', rowFailures.sort((a, b) => a.index - b.index));
+    }
+    return { customers: [...customers, ...accepted], result: accepted };
+  });
+};
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Path segment '${segment}' is not validly encoded.`);
+  }
+};
+
+const route = async (store: CustomerStore, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+  const method = req.method || 'GET';
+
+  if (method === 'OPTIONS') return sendJson(res, 204);
+  if (segments[0] !== 'customers') throw new HttpError(404, `No route for ${url.pathname}.`);
+
+  const [, id, sub] = segments;
+
+  if (!id) {
+    if (method === 'GET') return sendJson(res, 200, store.all());
+    if (method === 'POST') return sendJson(res, 201, await handleCreate(store, await readJsonBody(req)));
+  } else if (id === 'import' && !sub) {
+    if (method === 'POST') return sendJson(res, 201, await handleImport(store, await readJsonBody(req)));
+  } else if (sub === 'children' && segments.length === 3) {
+    // Like the full list, children in the Trash are included with `deletedAt` set
+    if (method === 'GET') {
+      findCustomer(store.all(), id);
+      return sendJson(res, 200, store.all().filter(c => c.parentId === id));
+    }
+  } else if (!sub) {
+    if (method === 'GET') return sendJson(res, 200, findCustomer(store.all(), id));
+    if (method === 'PUT') {
+      const baseVersion = readBaseVersion(req.headers['if-match']);
+      return sendJson(res, 200, await handleUpdate(store, id, await readJsonBody(req), baseVersion));
+    }
+    if (method === 'DELETE') {
+      await handleDelete(store, id);
+      return sendJson(res, 204);
+    }
+  } else {
+    throw new HttpError(404, `No route for ${url.pathname}.`);
+  }
+
+  throw new HttpError(405, `${method} is not supported on ${url.pathname}.`);
+};
+
+const start = async () => {
+  const store = await openCustomerStore(DATA_FILE);
+
+  const server = http.createServer((req, res) => {
+    route(store, req, res).catch((err) => {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.message, details: err.details });
+      } else {
+        console.error(err);
+        sendJson(res, 500, { error: 'Internal server error.' });
+      }
+    });
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Customer API listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+  });
+};
+
+start().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
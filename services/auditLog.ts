@@ -0,0 +1,191 @@
+import { Address, AuditAction, AuditEntry, Contact, Customer, FieldChange } from '../types';
+import { CustomerChangeSet } from './customerRepository';
+
+export const AUDIT_LOG_STORAGE_KEY = 'customer_audit_log';
+// Oldest entries are dropped past this point so the log cannot fill local storage
+const MAX_ENTRIES = 5000;
+
+type Value = FieldChange['before'];
+
+const CUSTOMER_FIELDS: { key: keyof Customer; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'accountNumber', label: 'Account Number' },
+  { key: 'accountAliases', label: 'Account Aliases' },
+  { key: 'type', label: 'Type' },
+  { key: 'isVip', label: 'VIP' },
+  { key: 'parentId', label: 'Parent' },
+  { key: 'deletedAt', label: 'Moved to Trash' },
+];
+
+const ADDRESS_FIELDS: { key: keyof Address; label: string }[] = [
+  { key: 'street', label: 'Street' },
+  { key: 'latitude', label: 'Latitude' },
+  { key: 'longitude', label: 'Longitude' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zipCode', label: 'Zip Code' },
+  { key: 'isPrimary', label: 'Primary Location' },
+  { key: 'isBilling', label: 'Billing Address' },
+  { key: 'isGateProperty', label: 'Gate Property' },
+];
+
+const CONTACT_FIELDS: { key: keyof Contact; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'isPrimary', label: 'Primary Contact' },
+];
+
+// Treats missing, null and empty values as the same "no value"
+const normalize = (value: unknown): Value => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+  return String(value);
+};
+
+const describeAddress = (a: Address) =>
+  a.street?.trim() || (a.latitude && a.longitude ? `${a.latitude}, ${a.longitude}` : a.city || a.id);
+
+const describeContact = (c: Contact) => c.name.trim() || c.email || c.id;
+
+// Compares two versions of a collection item by item, keyed on id
+const diffCollection = <T extends { id: string }>(
+  before: T[],
+  after: T[],
+  path: string,
+  noun: string,
+  fields: { key: keyof T; label: string }[],
+  describe: (item: T) => string
+): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+
+  after.forEach(item => {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      changes.push({ field: `${path}.${item.id}`, label: `${noun} added`, before: null, after: describe(item) });
+      return;
+    }
+    fields.forEach(({ key, label }) => {
+      const b = normalize(previous[key]);
+      const a = normalize(item[key]);
+      if (b !== a) {
+        changes.push({
+          field: `${path}.${item.id}.${String(key)}`,
+          label: `${noun} "${describe(item)}" › ${label}`,
+          before: b,
+          after: a,
+        });
+      }
+    });
+  });
+
+  before.forEach(item => {
+    if (!afterById.has(item.id)) {
+      changes.push({ field: `${path}.${item.id}`, label: `${noun} removed`, before: describe(item), after: null });
+    }
+  });
+
+  return changes;
+};
+
+export const diffCustomerFields = (before: Customer | undefined, after: Customer | undefined): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  CUSTOMER_FIELDS.forEach(({ key, label }) => {
+    const b = normalize(before?.[key]);
+    const a = normalize(after?.[key]);
+    if (b !== a) changes.push({ field: key, label, before: b, after: a });
+  });
+
+  changes.push(
+    ...diffCollection(before?.addresses || [], after?.addresses || [], 'addresses', 'Address', ADDRESS_FIELDS, describeAddress),
+    ...diffCollection(before?.contacts || [], after?.contacts || [], 'contacts', 'Contact', CONTACT_FIELDS, describeContact)
+  );
+
+  return changes;
+};
+
+// Actions that describe the whole batch rather than one record the user acted on
+const BATCH_ACTIONS: AuditAction[] = ['IMPORT', 'ROLLBACK', 'UNDO', 'REDO'];
+
+// Builds one entry per affected record. Records other than `primaryId` are logged as side effects of it.
+// A bulk action passes every record it acted on; their side effects are then logged without a trigger.
+export const buildAuditEntries = (
+  prev: Customer[],
+  changes: CustomerChangeSet,
+  action: AuditAction,
+  primaryId: string | string[] | null,
+  actor: string
+): AuditEntry[] => {
+  const timestamp = new Date().toISOString();
+  const prevById = new Map(prev.map(c => [c.id, c]));
+  const primaryIds = primaryId === null ? [] : Array.isArray(primaryId) ? primaryId : [primaryId];
+  const primary = primaryIds.length === 1
+    ? [...changes.created, ...changes.updated].find(c => c.id === primaryIds[0]) || prevById.get(primaryIds[0])
+    : undefined;
+
+  const entry = (customer: Customer, recordAction: AuditAction, fieldChanges: FieldChange[]): AuditEntry => ({
+    id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    customerId: customer.id,
+    customerName: customer.name,
+    action: recordAction,
+    actor,
+    timestamp,
+    changes: fieldChanges,
+    triggeredBy: primary && primary.id !== customer.id
+      ? { customerId: primary.id, customerName: primary.name, action }
+      : undefined,
+  });
+
+  const actionFor = (id: string, fallback: AuditAction) =>
+    BATCH_ACTIONS.includes(action) || primaryIds.includes(id) ? action : fallback;
+
+  const entries: AuditEntry[] = [];
+  changes.created.forEach(c => {
+    entries.push(entry(c, actionFor(c.id, 'CREATE'), diffCustomerFields(undefined, c)));
+  });
+  changes.updated.forEach(c => {
+    const fieldChanges = diffCustomerFields(prevById.get(c.id), c);
+    // Records can be rewritten without any real change, e.g. re-linking a child that was already linked
+    if (fieldChanges.length > 0) entries.push(entry(c, actionFor(c.id, 'UPDATE'), fieldChanges));
+  });
+  changes.removed.forEach(id => {
+    const removed = prevById.get(id);
+    // The losing side of a merge is removed, but it was merged rather than purged
+    const fallback = action === 'MERGE' ? 'MERGE' : 'PURGE';
+    if (removed) entries.push(entry(removed, actionFor(id, fallback), diffCustomerFields(removed, undefined)));
+  });
+
+  return entries;
+};
+
+const isAuditEntry = (value: unknown): value is AuditEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'string'
+    && typeof entry.customerId === 'string'
+    && typeof entry.action === 'string'
+    && typeof entry.timestamp === 'string'
+    && Array.isArray(entry.changes);
+};
+
+// An unreadable log is described to `onError` and replaced by an empty one
+export const loadAuditLog = (onError?: (message: string) => void): AuditEntry[] => {
+  try {
+    const saved = localStorage.getItem(AUDIT_LOG_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed) || !parsed.every(isAuditEntry)) throw new Error('it is not a list of audit entries');
+    return parsed;
+  } catch (err) {
+    onError?.(`The audit log could not be read (${(err as Error).message}); a new one was started.`);
+    return [];
+  }
+};
+
+export const saveAuditLog = (entries: AuditEntry[]) => {
+  localStorage.setItem(AUDIT_LOG_STORAGE_KEY, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+};
@@ -0,0 +1,105 @@
+import { BulkAction, Customer, CustomerType } from '../types';
+import { getAncestors, getHierarchyErrors } from './hierarchy';
+import { planDelete } from './customerDelete';
+
+export interface BulkFailure {
+  customer: Customer;
+  reason: string;
+}
+
+export interface BulkPlan {
+  // Every record after the action, ready to commit
+  records: Customer[];
+  // Selected customers the action changes
+  applied: Customer[];
+  // Selected customers already in the requested state
+  unchanged: Customer[];
+  // Selected customers a rule kept from changing; the rest still go ahead
+  failures: BulkFailure[];
+}
+
+export const BULK_ACTION_LABELS: Record<BulkAction['type'], string> = {
+  DELETE: 'Move to Trash',
+  SET_VIP: 'Set VIP',
+  ASSIGN_PARENT: 'Assign to Parent',
+  DETACH: 'Detach from Parent',
+};
+
+// Applies the action one customer at a time against the records as changed so far, so the hierarchy
+// checks see earlier moves in the same batch.
+export const planBulkAction = (records: Customer[], ids: string[], action: BulkAction): BulkPlan => {
+  const active = records.filter(c => !c.deletedAt);
+  const selected = ids
+    .map(id => active.find(c => c.id === id))
+    .filter((c): c is Customer => !!c);
+
+  let next = records;
+  const applied: Customer[] = [];
+  const unchanged: Customer[] = [];
+  const failures: BulkFailure[] = [];
+  const replace = (customer: Customer, change: Partial<Customer>) => {
+    next = next.map(c => (c.id === customer.id ? { ...c, ...change } : c));
+  };
+
+  switch (action.type) {
+    case 'DELETE': {
+      // Deepest first, so a selected sub-account is already in the Trash, still linked, when its parent
+      // goes; restoring both then puts it back where it was
+      const depth = new Map(selected.map(c => [c.id, getAncestors(active, c.id).length]));
+      [...selected].sort((a, b) => depth.get(b.id)! - depth.get(a.id)!).forEach(customer => {
+        const plan = planDelete(next, customer.id);
+        if (plan.errors.length > 0) {
+          failures.push({ customer, reason: plan.errors.join(' ') });
+          return;
+        }
+        next = plan.records;
+        applied.push(customer);
+      });
+      break;
+    }
+    case 'SET_VIP':
+      selected.forEach(customer => {
+        if (customer.isVip === action.isVip) {
+          unchanged.push(customer);
+          return;
+        }
+        replace(customer, { isVip: action.isVip });
+        applied.push(customer);
+      });
+      break;
+    case 'ASSIGN_PARENT': {
+      const parent = active.find(c => c.id === action.parentId);
+      selected.forEach(customer => {
+        if (!parent) {
+          failures.push({ customer, reason: 'The chosen parent no longer exists.' });
+          return;
+        }
+        if (customer.parentId === parent.id) {
+          unchanged.push(customer);
+          return;
+        }
+        const planned = next.map(c => (c.id === customer.id ? { ...c, parentId: parent.id, type: CustomerType.DIRECT } : c));
+        const errors = getHierarchyErrors(planned, customer.id);
+        if (errors.length > 0) {
+          failures.push({ customer, reason: errors.join(' ') });
+          return;
+        }
+        next = planned;
+        applied.push(customer);
+      });
+      break;
+    }
+    case 'DETACH':
+      selected.forEach(customer => {
+        if (!customer.parentId) {
+          unchanged.push(customer);
+          return;
+        }
+        replace(customer, { parentId: null, type: CustomerType.PARENT });
+        applied.push(customer);
+      });
+      break;
+  }
+
+  return { records: next, applied, unchanged, failures };
+};
@@ -0,0 +1,60 @@
+import { AuditEntry, Customer } from '../types';
+import { CustomerChangeSet } from './customerRepository';
+
+const CHANNEL_NAME = 'customerflow_sync';
+
+export interface CrossTabMessage {
+  sourceTabId: string;
+  changes: CustomerChangeSet;
+  auditEntries: AuditEntry[];
+}
+
+export interface CrossTabChannel {
+  tabId: string;
+  publish: (changes: CustomerChangeSet, auditEntries: AuditEntry[]) => void;
+  close: () => void;
+}
+
+// Tells other open tabs about every change this tab makes. Falls back to `storage` events
+// (which only carry "something changed") where BroadcastChannel is unavailable.
+export const openCrossTabChannel = (
+  onRemoteChanges: (message: CrossTabMessage) => void,
+  onRemoteStorageChange: (key: string) => void
+): CrossTabChannel => {
+  const tabId = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<CrossTabMessage>) => {
+      if (event.data?.sourceTabId !== tabId) onRemoteChanges(event.data);
+    };
+    return {
+      tabId,
+      publish: (changes, auditEntries) => channel.postMessage({ sourceTabId: tabId, changes, auditEntries }),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key) onRemoteStorageChange(event.key);
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    tabId,
+    publish: () => {},
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+// Applies another tab's change set on top of a local record list
+export const mergeRemoteChanges = (records: Customer[], changes: CustomerChangeSet): Customer[] => {
+  const incoming = new Map([...changes.created, ...changes.updated].map(c => [c.id, c]));
+  const merged = records
+    .filter(c => !changes.removed.includes(c.id))
+    .map(c => incoming.get(c.id) || c);
+  const knownIds = new Set(merged.map(c => c.id));
+  incoming.forEach((c, id) => {
+    if (!knownIds.has(id)) merged.push(c);
+  });
+  return merged;
+};
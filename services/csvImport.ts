@@ -0,0 +1,45 @@
+import { CsvWorkerMessage } from './csvParser';
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+// Parses a CSV file off the main thread. `onProgress` receives the fraction of bytes read (0-1);
+// aborting `signal` stops the worker and rejects with an AbortError.
+export const parseCsvFile = (file: File, onProgress: (fraction: number) => void, signal?: AbortSignal): Promise<ParsedCsv> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./csvParser.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('CSV parsing was cancelled.', 'AbortError'));
+    };
+
+    if (signal?.aborted) return handleAbort();
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.total > 0 ? message.loaded / message.total : 1);
+      } else if (message.type === 'done') {
+        finish();
+        const [headers = [], ...rows] = message.rows;
+        resolve({ headers: headers.map(h => h.trim()), rows });
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The CSV parser stopped unexpectedly.'));
+    };
+
+    worker.postMessage({ file });
+  });
@@ -0,0 +1,135 @@
+// Incremental RFC 4180 parser. Chunks may split a record, a quoted field or a CRLF pair
+// anywhere; the parser keeps its state between push() calls.
+
+export interface CsvParser {
+  // Returns the records completed by this chunk
+  push: (chunk: string) => string[][];
+  // Flushes the final record when the input does not end with a line break
+  end: () => string[][];
+}
+
+export class CsvParseError extends Error {}
+
+enum State {
+  FieldStart,
+  Unquoted,
+  Quoted,
+  QuoteInQuoted, // saw '"' inside a quoted field: either an escaped quote or the closing one
+}
+
+export const DELIMITER_CANDIDATES = [',', ';', '\t'];
+
+// Picks the candidate that occurs most often, outside quotes, in the first record of `sample`
+export const detectDelimiter = (sample: string): string => {
+  const counts = new Map(DELIMITER_CANDIDATES.map(d => [d, 0]));
+  let inQuotes = false;
+  for (let i = 0; i < sample.length; i++) {
+    const ch = sample[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+  }
+
+  let best = ',';
+  counts.forEach((count, d) => {
+    if (count > counts.get(best)!) best = d;
+  });
+  return best;
+};
+
+export const createCsvParser = (delimiter = ','): CsvParser => {
+  let state = State.FieldStart;
+  let field = '';
+  let record: string[] = [];
+  let afterCr = false;
+  let isFirstChunk = true;
+  let line = 1;
+  let quoteStartLine = 1;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    state = State.FieldStart;
+  };
+
+  const endRecord = (records: string[][]) => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  const push = (chunk: string) => {
+    const records: string[][] = [];
+    let i = 0;
+    if (isFirstChunk && chunk.length > 0) {
+      isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    for (; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      // CRLF is one line break; the LF half may arrive in the next chunk
+      if (afterCr) {
+        afterCr = false;
+        if (ch === '\n') continue;
+      }
+
+      if (state === State.Quoted) {
+        const close = chunk.indexOf('"', i);
+        const end = close === -1 ? chunk.length : close;
+        const text = chunk.slice(i, end);
+        field += text;
+        line += text.split('\n').length - 1;
+        if (close !== -1) state = State.QuoteInQuoted;
+        i = end;
+        continue;
+      }
+
+      if (state === State.QuoteInQuoted) {
+        if (ch === '"') {
+          field += '"';
+          state = State.Quoted;
+          continue;
+        }
+        // Closing quote; anything other than a delimiter or line break is kept as text
+        state = State.Unquoted;
+      }
+
+      if (ch === delimiter) {
+        endField();
+      } else if (ch === '\n' || ch === '\r') {
+        endRecord(records);
+        afterCr = ch === '\r';
+        line++;
+      } else if (ch === '"' && state === State.FieldStart) {
+        state = State.Quoted;
+        quoteStartLine = line;
+      } else {
+        field += ch;
+        state = State.Unquoted;
+      }
+    }
+    return records;
+  };
+
+  const end = () => {
+    if (state === State.Quoted) {
+      throw new CsvParseError(`A quoted field starting on line ${quoteStartLine} is never closed.`);
+    }
+    const records: string[][] = [];
+    if (state !== State.FieldStart || record.length > 0) endRecord(records);
+    return records;
+  };
+
+  return { push, end };
+};
+
+// A blank line parses as a single empty field
+export const isBlankRecord = (record: string[]) => record.every(value => value.trim() === '');
+
+// Messages posted by csvParser.worker.ts
+export type CsvWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'done'; rows: string[][]; delimiter: string }
+  | { type: 'error'; message: string };
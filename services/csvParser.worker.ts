@@ -0,0 +1,42 @@
+import { CsvWorkerMessage, createCsvParser, detectDelimiter, isBlankRecord, CsvParser } from './csvParser';
+
+const post = (message: CsvWorkerMessage) => self.postMessage(message);
+
+// Reads the file as a byte stream so large uploads never sit in memory as one string
+const parseFile = async (file: File) => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  const rows: string[][] = [];
+  let parser: CsvParser | null = null;
+  let delimiter = ',';
+  let loaded = 0;
+
+  const collect = (records: string[][]) => {
+    records.forEach(record => {
+      if (!isBlankRecord(record)) rows.push(record);
+    });
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    const text = decoder.decode(value, { stream: true });
+    if (!parser) {
+      delimiter = detectDelimiter(text);
+      parser = createCsvParser(delimiter);
+    }
+    collect(parser.push(text));
+    post({ type: 'progress', loaded, total: file.size });
+  }
+
+  if (parser) {
+    collect(parser.push(decoder.decode()));
+    collect(parser.end());
+  }
+  post({ type: 'done', rows, delimiter });
+};
+
+self.onmessage = (event: MessageEvent<{ file: File }>) => {
+  parseFile(event.data.file).catch((err) => post({ type: 'error', message: (err as Error).message }));
+};
@@ -0,0 +1,70 @@
+import { ChildDisposition, Customer, CustomerType } from '../types';
+import { createHierarchyCheck, getDescendantIds } from './hierarchy';
+
+export interface DeletePlan {
+  // Every record after the delete, ready to commit
+  records: Customer[];
+  // The customer plus any sub-accounts deleted along with it
+  trashed: Customer[];
+  moved: { child: Customer; parent: Customer }[];
+  standalone: Customer[];
+  // Reasons the plan cannot be applied as chosen
+  errors: string[];
+}
+
+// Children without a choice become standalone, as they always did
+const DEFAULT_DISPOSITION: ChildDisposition = { action: 'STANDALONE' };
+
+export const planDelete = (
+  records: Customer[],
+  id: string,
+  dispositions: Record<string, ChildDisposition> = {}
+): DeletePlan => {
+  const now = new Date().toISOString();
+  const active = records.filter(c => !c.deletedAt);
+  const children = active.filter(c => c.parentId === id);
+  const dispositionOf = (child: Customer) => dispositions[child.id] || DEFAULT_DISPOSITION;
+
+  // Deleted children take their whole subtree with them; the links inside it are kept for a restore
+  const trashedIds = new Set([id]);
+  children.filter(c => dispositionOf(c).action === 'DELETE').forEach(c => {
+    trashedIds.add(c.id);
+    getDescendantIds(active, c.id).forEach(d => trashedIds.add(d));
+  });
+
+  const next = records.map(c => {
+    if (c.id === id) return { ...c, deletedAt: now, deletedChildIds: children.map(k => k.id) };
+    if (trashedIds.has(c.id)) return { ...c, deletedAt: now };
+    // Children already in the Trash keep their link so a restore puts them back under this parent
+    if (c.parentId !== id || c.deletedAt) return c;
+    const disposition = dispositionOf(c);
+    if (disposition.action === 'MOVE') return { ...c, parentId: disposition.parentId, type: CustomerType.DIRECT };
+    return { ...c, parentId: null, type: CustomerType.PARENT };
+  });
+
+  const byId = new Map(active.map(c => [c.id, c]));
+  const errors: string[] = [];
+  const moved: DeletePlan['moved'] = [];
+  const hierarchyErrors = createHierarchyCheck(next);
+  children.forEach(child => {
+    const disposition = dispositionOf(child);
+    if (disposition.action !== 'MOVE') return;
+    const parent = byId.get(disposition.parentId);
+    if (!parent) {
+      errors.push(`"${child.name}": the chosen parent no longer exists.`);
+    } else if (trashedIds.has(parent.id)) {
+      errors.push(`"${child.name}" cannot move under "${parent.name}", which is being deleted.`);
+    } else {
+      hierarchyErrors(child.id).forEach(reason => errors.push(`"${child.name}": ${reason}`));
+      moved.push({ child, parent });
+    }
+  });
+
+  return {
+    records: next,
+    trashed: active.filter(c => trashedIds.has(c.id)),
+    moved,
+    standalone: children.filter(c => dispositionOf(c).action === 'STANDALONE'),
+    errors,
+  };
+};
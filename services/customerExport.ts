@@ -0,0 +1,98 @@
+import { Customer, CustomerType } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+
+// Columns of the import template and the CSV export. The importer matches them by header name.
+export const IMPORT_CSV_HEADERS = [
+  'Customer Name',
+  'Account Number',
+  'Parent Customer Name',
+  'Street Address',
+  'City',
+  'State',
+  'Zip Code',
+  'Latitude',
+  'Longitude',
+  'Is Primary Address',
+  'Is Billing Address',
+  'Is Gate Property',
+  'Contact Name',
+  'Contact Email',
+  'Contact Phone',
+  'Is Primary Contact',
+  'Customer Type',
+  'Is VIP',
+];
+
+export const JSON_EXPORT_FORMAT = 'customerflow-export';
+
+export interface CustomerJsonExport {
+  format: typeof JSON_EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  customers: Customer[];
+}
+
+export const toCsvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export const toCsvLine = (fields: string[]) => fields.map(toCsvField).join(',');
+
+const flag = (value: boolean) => (value ? 'TRUE' : 'FALSE');
+
+// Row N of a customer carries its Nth address and Nth contact, so a customer takes as many rows
+// as its longer collection. `allCustomers` resolves parent names.
+export const customersToCsv = (customers: Customer[], allCustomers: Customer[]): string => {
+  const rows = customers.flatMap(customer => {
+    const parentName = allCustomers.find(c => c.id === customer.parentId)?.name || '';
+    const rowCount = Math.max(customer.addresses.length, customer.contacts.length, 1);
+
+    return Array.from({ length: rowCount }, (_, idx) => {
+      const address = customer.addresses[idx];
+      const contact = customer.contacts[idx];
+      return toCsvLine([
+        customer.name,
+        customer.accountNumber,
+        parentName,
+        ...(address
+          ? [
+              address.street || '',
+              address.city,
+              address.state,
+              address.zipCode,
+              address.latitude || '',
+              address.longitude || '',
+              flag(address.isPrimary),
+              flag(address.isBilling),
+              flag(address.isGateProperty),
+            ]
+          : Array(9).fill('')),
+        ...(contact ? [contact.name, contact.email, contact.phone, flag(contact.isPrimary)] : Array(4).fill('')),
+        customer.type === CustomerType.PARENT ? 'Parent' : 'Direct',
+        flag(!!customer.isVip),
+      ]);
+    });
+  });
+
+  return [IMPORT_CSV_HEADERS.join(','), ...rows].join('\n');
+};
+
+// Full-fidelity export: every address, coordinate and flag, plus ids so parent links survive a re-import
+export const customersToJson = (customers: Customer[]): string => {
+  const payload: CustomerJsonExport = {
+    format: JSON_EXPORT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    customers: customers.map(({ deletedAt, deletedChildIds, ...customer }) => customer),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,93 @@
+import { Address, Contact, Customer, CustomerFormData, CustomerType } from '../types';
+import { getDescendantIds } from './hierarchy';
+import { getAccountNumbers, validateCustomer } from './customerRules';
+import { addressKey, emailKey } from './duplicates';
+
+// Merging folds a duplicate ("loser") into the customer that stays ("survivor"): the survivor takes the
+// chosen details, the loser's sub-accounts move under it and the loser's account number becomes an alias.
+
+export interface MergePlan {
+  // Every record after the merge, ready to commit
+  records: Customer[];
+  // The loser's active sub-accounts, which move under the survivor
+  repointed: Customer[];
+  aliases: string[];
+  // Reasons the merge cannot be applied as chosen
+  errors: string[];
+}
+
+// One address or contact on the merge screen, with the records it came from
+export interface MergeItem<T> {
+  item: T;
+  sources: string[]; // Customer ids
+}
+
+const combine = <T extends { id: string }>(
+  survivorItems: T[],
+  loserItems: T[],
+  survivorId: string,
+  loserId: string,
+  key: (item: T) => string
+): MergeItem<T>[] => {
+  const combined: MergeItem<T>[] = survivorItems.map(item => ({ item, sources: [survivorId] }));
+  const usedIds = new Set(survivorItems.map(item => item.id));
+  loserItems.forEach((item, idx) => {
+    const k = key(item);
+    const same = k ? combined.find(c => key(c.item) === k) : undefined;
+    if (same) {
+      same.sources.push(loserId);
+      return;
+    }
+    // Ids only have to be unique within a customer, so the loser's may clash with the survivor's
+    const id = usedIds.has(item.id) ? `${item.id}_merged_${idx}` : item.id;
+    usedIds.add(id);
+    combined.push({ item: { ...item, id }, sources: [loserId] });
+  });
+  return combined;
+};
+
+// The same place or mailbox on both records is listed once, keeping the survivor's copy and flags
+export const combineAddresses = (survivor: Customer, loser: Customer): MergeItem<Address>[] =>
+  combine(survivor.addresses, loser.addresses, survivor.id, loser.id, addressKey).map(({ item, sources }) => ({
+    item: sources[0] === loser.id ? { ...item, isPrimary: false, isBilling: false } : item,
+    sources,
+  }));
+
+export const combineContacts = (survivor: Customer, loser: Customer): MergeItem<Contact>[] =>
+  combine(survivor.contacts, loser.contacts, survivor.id, loser.id, c => emailKey(c.email)).map(({ item, sources }) => ({
+    item: sources[0] === loser.id ? { ...item, isPrimary: false } : item,
+    sources,
+  }));
+
+// `data` is the survivor as chosen on the merge screen
+export const planMerge = (records: Customer[], survivorId: string, loserId: string, data: CustomerFormData): MergePlan => {
+  const survivor = records.find(c => c.id === survivorId && !c.deletedAt);
+  const loser = records.find(c => c.id === loserId && !c.deletedAt);
+  if (!survivor || !loser || survivorId === loserId) {
+    return { records, repointed: [], aliases: [], errors: ['These customers are no longer available to merge.'] };
+  }
+  if (getDescendantIds(records, survivorId).has(loserId) || getDescendantIds(records, loserId).has(survivorId)) {
+    return { records, repointed: [], aliases: [], errors: ['A customer cannot be merged with one of its own sub-accounts.'] };
+  }
+
+  const aliases = [...new Set([...getAccountNumbers(survivor), ...getAccountNumbers(loser)])]
+    .filter(n => n && n !== data.accountNumber);
+  const merged: Customer = { ...survivor, ...data, accountAliases: aliases };
+
+  // Children in the Trash move too, so a restore puts them back under the survivor
+  const next = records
+    .filter(c => c.id !== loserId)
+    .map(c => {
+      if (c.id === survivorId) return merged;
+      if (c.parentId === loserId) return { ...c, parentId: survivorId, type: CustomerType.DIRECT };
+      return c;
+    });
+
+  return {
+    records: next,
+    repointed: records.filter(c => c.parentId === loserId && !c.deletedAt),
+    aliases,
+    // The usual form rules, including one primary and one billing address, plus the depth of the combined tree
+    errors: validateCustomer(data, next, survivorId),
+  };
+};
@@ -0,0 +1,306 @@
+import { Customer, CustomerType } from '../types';
+import { getAccountNumbers } from './customerRules';
+import { getChildrenMap } from './hierarchy';
+import { SearchIndex, createSearchIndex, splitWords } from './searchIndex';
+
+// Search syntax for the customer list, e.g. `type:parent vip:yes state:CA city:"Tech City" children>3`.
+// Words without a field are looked up in the search index, so they match any customer, address or contact
+// field and tolerate typos. A leading `-` negates a term.
+// Exported so other screens and services can run the same filters as the list.
+
+export type QueryField =
+  | 'type' | 'vip' | 'gate' | 'name' | 'account' | 'street' | 'city' | 'state' | 'zip' | 'contact' | 'parent' | 'children';
+
+export type QueryOperator = ':' | '=' | '>' | '<' | '>=' | '<=';
+
+export interface QueryTerm {
+  field: QueryField | null; // null for free text
+  operator: QueryOperator;
+  value: string;
+  negated: boolean;
+  // Position in the query text, for highlighting and autocomplete
+  start: number;
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  // Only well-formed terms; the ones with errors are left out so the rest still filter
+  terms: QueryTerm[];
+  errors: QueryError[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  // Text that replaces query[start, end)
+  replacement: string;
+  start: number;
+  end: number;
+}
+
+// Lookups built once per customer list and shared by every term
+interface QueryContext {
+  byId: Map<string, Customer>;
+  childCounts: Map<string, number>;
+}
+
+type FieldKind = 'text' | 'boolean' | 'enum' | 'number';
+
+interface FieldDef {
+  kind: FieldKind;
+  description: string;
+  values?: string[]; // For enums
+  // Text, enum and boolean fields; `value` is lower-cased, booleans arrive as 'true' or 'false'
+  matches?: (customer: Customer, value: string, ctx: QueryContext) => boolean;
+  // Number fields
+  count?: (customer: Customer, ctx: QueryContext) => number;
+  // Values offered by autocomplete
+  suggest?: (customers: Customer[]) => string[];
+}
+
+const has = (text: string | undefined, value: string) => (text || '').toLowerCase().includes(value);
+
+const distinct = (values: string[]) =>
+  [...new Set(values.map(v => v.trim()).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+const FIELDS: Record<QueryField, FieldDef> = {
+  type: {
+    kind: 'enum',
+    description: 'parent or direct',
+    values: ['parent', 'direct'],
+    matches: (c, v) => c.type === (v === 'parent' ? CustomerType.PARENT : CustomerType.DIRECT),
+  },
+  vip: { kind: 'boolean', description: 'VIP customers', matches: (c, v) => c.isVip === (v === 'true') },
+  gate: {
+    kind: 'boolean',
+    description: 'Has a gate property',
+    matches: (c, v) => c.addresses.some(a => a.isGateProperty) === (v === 'true'),
+  },
+  name: { kind: 'text', description: 'Customer name contains', matches: (c, v) => has(c.name, v), suggest: cs => distinct(cs.map(c => c.name)) },
+  account: {
+    kind: 'text',
+    description: 'Account number or alias contains',
+    matches: (c, v) => getAccountNumbers(c).some(n => has(n, v)),
+    suggest: cs => distinct(cs.map(c => c.accountNumber)),
+  },
+  street: { kind: 'text', description: 'Street contains', matches: (c, v) => c.addresses.some(a => has(a.street, v)) },
+  city: {
+    kind: 'text',
+    description: 'City contains',
+    matches: (c, v) => c.addresses.some(a => has(a.city, v)),
+    suggest: cs => distinct(cs.flatMap(c => c.addresses.map(a => a.city))),
+  },
+  state: {
+    kind: 'text',
+    description: 'State is',
+    matches: (c, v) => c.addresses.some(a => a.state.trim().toLowerCase() === v),
+    suggest: cs => distinct(cs.flatMap(c => c.addresses.map(a => a.state.toUpperCase()))),
+  },
+  zip: {
+    kind: 'text',
+    description: 'Zip code starts with',
+    matches: (c, v) => c.addresses.some(a => a.zipCode.trim().toLowerCase().startsWith(v)),
+  },
+  contact: {
+    kind: 'text',
+    description: 'Contact name, email or phone contains',
+    matches: (c, v) => c.contacts.some(p => has(p.name, v) || has(p.email, v) || has(p.phone, v)),
+    // Email domains are the most useful contact filter
+    suggest: cs => distinct(cs.flatMap(c => c.contacts.map(p => (p.email.includes('@') ? p.email.slice(p.email.indexOf('@')) : '')))),
+  },
+  parent: {
+    kind: 'text',
+    description: 'Parent account name contains',
+    matches: (c, v, ctx) => !!c.parentId && has(ctx.byId.get(c.parentId)?.name, v),
+    suggest: cs => {
+      const parentIds = new Set(cs.map(c => c.parentId));
+      return distinct(cs.filter(c => parentIds.has(c.id)).map(c => c.name));
+    },
+  },
+  children: {
+    kind: 'number',
+    description: 'Number of direct sub-accounts, e.g. children>3',
+    count: (c, ctx) => ctx.childCounts.get(c.id) || 0,
+  },
+};
+
+export const QUERY_FIELDS = Object.keys(FIELDS) as QueryField[];
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', '0'];
+
+// Splits on whitespace outside double quotes
+interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+  unterminated: boolean;
+}
+
+const tokenize = (input: string): RawToken[] => {
+  const tokens: RawToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuotes = false;
+    while (i < input.length && (inQuotes || !/\s/.test(input[i]))) {
+      if (input[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    tokens.push({ text: input.slice(start, i), start, end: i, unterminated: inQuotes });
+  }
+  return tokens;
+};
+
+const TERM_PATTERN = /^(-?)([a-zA-Z]+)(>=|<=|:|=|>|<)(.*)$/;
+
+const unquote = (value: string) => value.replace(/^"/, '').replace(/"$/, '');
+
+export const parseQuery = (input: string): ParsedQuery => {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+
+  tokenize(input).forEach(({ text, start, end, unterminated }) => {
+    const fail = (message: string) => errors.push({ message, start, end });
+    if (unterminated) return fail(`Missing closing quote in ${text}.`);
+
+    const match = TERM_PATTERN.exec(text);
+    if (!match) {
+      const negated = text.startsWith('-') && text.length > 1;
+      const value = unquote(negated ? text.slice(1) : text);
+      if (value) terms.push({ field: null, operator: ':', value, negated, start, end });
+      return;
+    }
+
+    const [, minus, rawField, operator, rawValue] = match;
+    const field = rawField.toLowerCase() as QueryField;
+    const def = FIELDS[field];
+    if (!def) return fail(`Unknown filter "${rawField}". Available filters: ${QUERY_FIELDS.join(', ')}.`);
+
+    const value = unquote(rawValue).trim();
+    if (!value) return fail(`"${field}${operator}" needs a value.`);
+
+    const op = operator as QueryOperator;
+    if (def.kind !== 'number' && op !== ':' && op !== '=') {
+      return fail(`"${field}" cannot be compared with ${op}; use ${field}:value.`);
+    }
+
+    let normalized = value.toLowerCase();
+    if (def.kind === 'boolean') {
+      if (TRUE_WORDS.includes(normalized)) normalized = 'true';
+      else if (FALSE_WORDS.includes(normalized)) normalized = 'false';
+      else return fail(`"${field}" expects yes or no, not "${value}".`);
+    }
+    if (def.kind === 'enum' && !def.values!.includes(normalized)) {
+      return fail(`"${field}" expects ${def.values!.join(' or ')}, not "${value}".`);
+    }
+    if (def.kind === 'number' && !/^\d+$/.test(value)) {
+      return fail(`"${field}" expects a whole number, e.g. ${field}>3.`);
+    }
+
+    terms.push({ field, operator: op, value: normalized, negated: minus === '-', start, end });
+  });
+
+  return { terms, errors };
+};
+
+const compare = (actual: number, operator: QueryOperator, expected: number) => {
+  switch (operator) {
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+};
+
+// The free-text words of a query, searched together so results can be ranked as a whole.
+// Terms with no words in them, like `-` or `&`, are left out rather than matching nothing.
+export const getSearchText = (query: ParsedQuery) =>
+  query.terms.filter(t => !t.field && !t.negated && splitWords(t.value).length > 0).map(t => t.value).join(' ');
+
+// Builds a predicate for one query over one customer list. `customers` supplies parents and sub-account counts.
+// Pass the index the data hook maintains; without one, a throwaway index is built over `customers`.
+export const createQueryMatcher = (query: ParsedQuery, customers: Customer[], index?: SearchIndex) => {
+  const ctx: QueryContext = {
+    byId: new Map(customers.map(c => [c.id, c])),
+    childCounts: new Map([...getChildrenMap(customers)].map(([id, children]) => [id, children.length])),
+  };
+
+  const hasText = query.terms.some(t => !t.field);
+  const searchIndex = hasText ? index || createSearchIndex(customers) : null;
+  const searchText = getSearchText(query);
+  const textHits = searchIndex && searchText ? searchIndex.search(searchText) : null;
+  // Exclusions match exactly or by prefix only
+  const excludedIds = new Set(query.terms
+    .filter(t => !t.field && t.negated)
+    .flatMap(t => [...searchIndex!.search(t.value, { fuzzy: false }).keys()]));
+
+  const matchesTerm = (customer: Customer, term: QueryTerm): boolean => {
+    const def = FIELDS[term.field!];
+    if (def.kind === 'number') return compare(def.count!(customer, ctx), term.operator, Number(term.value));
+    return def.matches!(customer, term.value, ctx);
+  };
+
+  return (customer: Customer) =>
+    (!textHits || textHits.has(customer.id))
+    && !excludedIds.has(customer.id)
+    && query.terms.every(term => !term.field || matchesTerm(customer, term) !== term.negated);
+};
+
+// Runs a query over a list, e.g. `filterCustomers(customers, 'vip:yes state:CA').results`
+export const filterCustomers = (customers: Customer[], query: string | ParsedQuery, index?: SearchIndex) => {
+  const parsed = typeof query === 'string' ? parseQuery(query) : query;
+  const matches = createQueryMatcher(parsed, customers, index);
+  return { results: customers.filter(matches), errors: parsed.errors };
+};
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+// Completions for the term under the cursor: filter names first, then values for the chosen filter
+export const getQuerySuggestions = (input: string, cursor: number, customers: Customer[]): QuerySuggestion[] => {
+  const token = tokenize(input).find(t => t.start <= cursor && cursor <= t.end);
+  const start = token ? token.start : cursor;
+  const end = token ? token.end : cursor;
+  const typed = input.slice(start, cursor);
+  const minus = typed.startsWith('-') ? '-' : '';
+  const body = typed.slice(minus.length);
+
+  const match = /^([a-zA-Z]+)(>=|<=|:|=|>|<)(.*)$/.exec(body);
+  if (!match) {
+    const prefix = body.toLowerCase();
+    return QUERY_FIELDS
+      .filter(f => f.startsWith(prefix) && f !== prefix)
+      .map(f => ({
+        label: `${f}${FIELDS[f].kind === 'number' ? '>' : ':'}`,
+        description: FIELDS[f].description,
+        replacement: `${minus}${f}${FIELDS[f].kind === 'number' ? '>' : ':'}`,
+        start,
+        end,
+      }));
+  }
+
+  const [, rawField, operator, rawValue] = match;
+  const field = rawField.toLowerCase() as QueryField;
+  const def = FIELDS[field];
+  if (!def) return [];
+  const values = def.kind === 'boolean' ? ['yes', 'no'] : def.values || def.suggest?.(customers) || [];
+  const partial = unquote(rawValue).toLowerCase();
+  return values
+    .filter(v => v.toLowerCase().includes(partial) && v.toLowerCase() !== partial)
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(v => ({ label: v, replacement: `${minus}${field}${operator}${quoteIfNeeded(v)} `, start, end }));
+};
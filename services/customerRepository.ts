@@ -0,0 +1,73 @@
+import { Customer } from '../types';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createHttpRepository } from './httpRepository';
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'http';
+
+// Every read and write of customer records goes through one of these adapters,
+// so the UI does not need to know where the data actually lives.
+export interface CustomerRepository {
+  backend: StorageBackend;
+  // Resolves to null when the backend has never been written to, so the caller can seed it.
+  // Stored data that could not be read is set aside and described to `onWarning` for the user.
+  load: (onWarning?: (message: string) => void) => Promise<Customer[] | null>;
+  create: (customers: Customer[]) => Promise<void>;
+  update: (customers: Customer[]) => Promise<void>;
+  remove: (ids: string[]) => Promise<void>;
+}
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  apiBaseUrl: string;
+}
+
+export interface CustomerChangeSet {
+  created: Customer[];
+  updated: Customer[];
+  removed: string[];
+}
+
+const BACKENDS: StorageBackend[] = ['localStorage', 'indexedDB', 'http'];
+
+export const getStorageConfig = (): StorageConfig => {
+  const backend = process.env.STORAGE_BACKEND as StorageBackend | undefined;
+  return {
+    backend: backend && BACKENDS.includes(backend) ? backend : 'localStorage',
+    apiBaseUrl: process.env.API_BASE_URL || 'http://localhost:4000',
+  };
+};
+
+export const createCustomerRepository = (config: StorageConfig = getStorageConfig()): CustomerRepository => {
+  switch (config.backend) {
+    case 'indexedDB':
+      return createIndexedDbRepository();
+    case 'http':
+      return createHttpRepository(config.apiBaseUrl);
+    default:
+      return createLocalStorageRepository();
+  }
+};
+
+// Records are updated immutably, so a changed reference means a changed record.
+export const diffCustomers = (prev: Customer[], next: Customer[]): CustomerChangeSet => {
+  const prevById = new Map(prev.map(c => [c.id, c]));
+  const nextIds = new Set(next.map(c => c.id));
+
+  const created: Customer[] = [];
+  const updated: Customer[] = [];
+  next.forEach(c => {
+    const before = prevById.get(c.id);
+    if (!before) created.push(c);
+    else if (before !== c) updated.push(c);
+  });
+
+  const removed = prev.filter(c => !nextIds.has(c.id)).map(c => c.id);
+  return { created, updated, removed };
+};
+
+export const applyChanges = async (repository: CustomerRepository, changes: CustomerChangeSet) => {
+  if (changes.created.length > 0) await repository.create(changes.created);
+  if (changes.updated.length > 0) await repository.update(changes.updated);
+  if (changes.removed.length > 0) await repository.remove(changes.removed);
+};
@@ -0,0 +1,99 @@
+import { Customer, CustomerFormData, CustomerType } from '../types';
+import { HierarchyNode, getHierarchyErrors } from './hierarchy';
+
+// Business rules shared by the UI and the REST server, so both reject the same records.
+
+// An account number and the aliases it collected from merged duplicates
+export const getAccountNumbers = (customer: Pick<Customer, 'accountNumber' | 'accountAliases'>) => [
+  customer.accountNumber,
+  ...(customer.accountAliases || []),
+];
+
+// Customers in the Trash do not hold on to their account number. Aliases stay reserved so old
+// references to a merged account cannot be given to a new customer.
+export const isAccountNumberUnique = (customers: Customer[], accountNumber: string, excludeId?: string) => {
+  return !customers.some(
+    (c) => getAccountNumbers(c).includes(accountNumber) && c.id !== excludeId && !c.deletedAt
+  );
+};
+
+// Stands in for the id of a customer that has not been saved yet
+const UNSAVED_ID = '__unsaved__';
+
+// `childIds`, when given, are the sub-accounts the customer will have after the save; otherwise
+// it keeps the ones it has.
+export const validateCustomer = (
+  data: CustomerFormData,
+  customers: Customer[],
+  existingId?: string,
+  childIds?: string[]
+): string[] => {
+  const errors: string[] = [];
+
+  // Basic Fields
+  if (!data.name.trim()) errors.push('Customer Name is required.');
+  if (!data.accountNumber.trim()) errors.push('Account Number is required.');
+  
+  if (!isAccountNumberUnique(customers, data.accountNumber, existingId)) {
+    errors.push(`Account Number '${data.accountNumber}' is already in use.`);
+  }
+
+  // Address Validation
+  if (data.addresses.length === 0) {
+    errors.push('At least one address is required.');
+  } else {
+      const primaryCount = data.addresses.filter(a => a.isPrimary).length;
+      if (primaryCount === 0) errors.push('You must designate exactly one Primary Location address.');
+      if (primaryCount > 1) errors.push('Only one address can be marked as the Primary Location.');
+
+      const billingCount = data.addresses.filter(a => a.isBilling).length;
+      if (billingCount === 0) errors.push('You must designate exactly one Billing Address.');
+      if (billingCount > 1) errors.push('Only one address can be marked as the Billing Address.');
+
+      data.addresses.forEach((addr, idx) => {
+          const hasStreet = !!addr.street?.trim();
+          const hasLatLong = !!addr.latitude?.trim() && !!addr.longitude?.trim();
+          
+          if (!hasStreet && !hasLatLong) {
+              errors.push(`Address #${idx + 1}: Must provide either Street Address OR Latitude + Longitude.`);
+          }
+          if (!addr.city.trim()) errors.push(`Address #${idx + 1}: City is required.`);
+          if (!addr.state.trim()) errors.push(`Address #${idx + 1}: State is required.`);
+          if (!addr.zipCode.trim()) errors.push(`Address #${idx + 1}: Zip Code is required.`);
+      });
+  }
+
+  // Contact Validation
+  if (data.contacts.length === 0) {
+    errors.push('At least one contact person is required.');
+  } else {
+      const primaryContacts = data.contacts.filter((c) => c.isPrimary).length;
+      if (primaryContacts === 0) errors.push('You must designate exactly one Primary Contact.');
+      if (primaryContacts > 1) errors.push('Only one contact can be marked as Primary.');
+      
+      data.contacts.forEach((c, idx) => {
+          if(!c.name.trim()) errors.push(`Contact #${idx + 1}: Name is required.`);
+          if(!c.email.trim()) errors.push(`Contact #${idx + 1}: Email is required.`);
+          if(!c.phone.trim()) errors.push(`Contact #${idx + 1}: Phone is required.`);
+      });
+  }
+
+  if (data.type === CustomerType.PARENT && data.parentId) {
+     errors.push('A Parent Customer cannot have a Parent.');
+  }
+
+  // Hierarchy: no loops, and no deeper than the configured maximum
+  const id = existingId || UNSAVED_ID;
+  if (data.parentId || childIds?.length || customers.some(c => c.parentId === id)) {
+    const nodes: HierarchyNode[] = customers
+      .filter(c => c.id !== id)
+      .map(c => {
+        if (childIds?.includes(c.id)) return { ...c, parentId: id };
+        if (childIds && c.parentId === id) return { ...c, parentId: null };
+        return c;
+      });
+    errors.push(...getHierarchyErrors([...nodes, { id, name: data.name, parentId: data.parentId }], id));
+  }
+
+  return errors;
+};
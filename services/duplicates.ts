@@ -0,0 +1,174 @@
+import { Address, Customer } from '../types';
+
+// Finds customers that look like the same company entered twice, usually under different account numbers.
+
+export interface DuplicateMatch {
+  a: Customer;
+  b: Customer;
+  // 0–100; pairs below DUPLICATE_THRESHOLD are not reported
+  score: number;
+  reasons: string[];
+}
+
+export const DUPLICATE_THRESHOLD = 50;
+
+// How much each kind of evidence adds to a pair's score
+const WEIGHTS = {
+  name: 50, // Scaled by how similar the names are
+  address: 25,
+  email: 15,
+  phone: 10,
+};
+
+// Names below this similarity add nothing, so unrelated companies do not pile up small scores
+const MIN_NAME_SIMILARITY = 0.6;
+
+// Name words and prefixes shared by this many customers are too common to suggest a duplicate on their own
+const MAX_BUCKET_SIZE = 200;
+
+// Legal suffixes and filler words that differ between two entries of the same company
+const NAME_STOP_WORDS = new Set([
+  'the', 'and', 'of', 'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'plc', 'lp', 'llp', 'group',
+]);
+
+export const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !NAME_STOP_WORDS.has(token))
+    .join(' ');
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 0–1. Takes the better of edit distance (catches typos) and shared words (catches reordering)
+export const nameSimilarity = (a: string, b: string) => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const edit = 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+  const xTokens = new Set(x.split(' '));
+  const yTokens = new Set(y.split(' '));
+  const shared = [...xTokens].filter(t => yTokens.has(t)).length;
+  const overlap = shared / (xTokens.size + yTokens.size - shared);
+  return Math.max(edit, overlap);
+};
+
+// Keys that identify the same place, the same mailbox or the same phone line across customers
+export const addressKey = (a: Address) => {
+  const street = a.street?.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  if (street) return `${street}|${a.zipCode.trim().toLowerCase()}`;
+  return a.latitude?.trim() && a.longitude?.trim() ? `${a.latitude.trim()},${a.longitude.trim()}` : '';
+};
+
+export const emailKey = (email: string) => email.trim().toLowerCase();
+
+// Last ten digits, so "+1 (555) 123-4567" and "555.123.4567" match
+export const phoneKey = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+const keysOf = <T>(items: T[], key: (item: T) => string) => new Set(items.map(key).filter(Boolean));
+
+const describeAddress = (a: Address) => a.street?.trim() || `${a.latitude}, ${a.longitude}`;
+
+export const scorePair = (a: Customer, b: Customer): Omit<DuplicateMatch, 'a' | 'b'> => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    score += WEIGHTS.name * similarity;
+    reasons.push(similarity === 1 ? 'Same name' : `Similar name (${Math.round(similarity * 100)}%)`);
+  }
+
+  const bAddresses = keysOf(b.addresses, addressKey);
+  const sharedAddress = a.addresses.find(addr => bAddresses.has(addressKey(addr)));
+  if (sharedAddress) {
+    score += WEIGHTS.address;
+    reasons.push(`Same address: ${describeAddress(sharedAddress)}`);
+  }
+
+  const bEmails = keysOf(b.contacts, c => emailKey(c.email));
+  const sharedEmail = a.contacts.find(c => bEmails.has(emailKey(c.email)));
+  if (sharedEmail) {
+    score += WEIGHTS.email;
+    reasons.push(`Shared contact email: ${sharedEmail.email}`);
+  }
+
+  const bPhones = keysOf(b.contacts, c => phoneKey(c.phone));
+  const sharedPhone = a.contacts.find(c => bPhones.has(phoneKey(c.phone)));
+  if (sharedPhone) {
+    score += WEIGHTS.phone;
+    reasons.push(`Shared contact phone: ${sharedPhone.phone}`);
+  }
+
+  return { score: Math.round(score), reasons };
+};
+
+// Only pairs that share a name word or prefix, an address, an email or a phone are scored, so large lists
+// do not compare every customer with every other. Customers in the same line of a hierarchy
+// (a parent and its own sites) often share details on purpose and are not reported.
+export const findDuplicates = (customers: Customer[]): DuplicateMatch[] => {
+  const active = customers.filter(c => !c.deletedAt);
+  const byId = new Map(active.map(c => [c.id, c]));
+
+  const buckets = new Map<string, string[]>();
+  const addToBucket = (key: string, id: string) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(id);
+    else buckets.set(key, [id]);
+  };
+  active.forEach(c => {
+    const name = normalizeName(c.name);
+    new Set([
+      ...name.split(' ').filter(Boolean).map(t => `name:${t}`),
+      ...(name ? [`prefix:${name.replace(/ /g, '').slice(0, 3)}`] : []),
+      ...[...keysOf(c.addresses, addressKey)].map(k => `address:${k}`),
+      ...[...keysOf(c.contacts, contact => emailKey(contact.email))].map(k => `email:${k}`),
+      ...[...keysOf(c.contacts, contact => phoneKey(contact.phone))].map(k => `phone:${k}`),
+    ]).forEach(key => addToBucket(key, c.id));
+  });
+
+  const isAncestor = (ancestorId: string, id: string) => {
+    const seen = new Set([id]);
+    for (let parentId = byId.get(id)?.parentId; parentId && !seen.has(parentId); parentId = byId.get(parentId)?.parentId) {
+      if (parentId === ancestorId) return true;
+      seen.add(parentId);
+    }
+    return false;
+  };
+  const compared = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+  buckets.forEach((ids, key) => {
+    if (ids.length < 2 || (/^(name|prefix):/.test(key) && ids.length > MAX_BUCKET_SIZE)) return;
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const pairKey = ids[i] < ids[j] ? `${ids[i]}|${ids[j]}` : `${ids[j]}|${ids[i]}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+        if (isAncestor(ids[i], ids[j]) || isAncestor(ids[j], ids[i])) continue;
+
+        const a = byId.get(ids[i])!;
+        const b = byId.get(ids[j])!;
+        const { score, reasons } = scorePair(a, b);
+        if (score >= DUPLICATE_THRESHOLD) matches.push({ a, b, score, reasons });
+      }
+    }
+  });
+
+  return matches.sort((x, y) => y.score - x.score || x.a.name.localeCompare(y.a.name));
+};
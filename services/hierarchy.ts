@@ -0,0 +1,114 @@
+import { Customer } from '../types';
+
+// Customers nest to any depth (e.g. holding company → regional office → site), up to a limit set with
+// MAX_HIERARCHY_DEPTH. Customers in the Trash are ignored: they keep their parent link only so a
+// restore can put them back.
+
+const DEFAULT_MAX_HIERARCHY_DEPTH = 5;
+
+export const MAX_HIERARCHY_DEPTH = Number(process.env.MAX_HIERARCHY_DEPTH) || DEFAULT_MAX_HIERARCHY_DEPTH;
+
+export type HierarchyNode = Pick<Customer, 'id' | 'name' | 'parentId' | 'deletedAt'>;
+
+export const getChildrenMap = <T extends HierarchyNode>(nodes: T[]): Map<string, T[]> => {
+  const children = new Map<string, T[]>();
+  nodes.forEach(n => {
+    if (!n.parentId || n.deletedAt) return;
+    const siblings = children.get(n.parentId);
+    if (siblings) siblings.push(n);
+    else children.set(n.parentId, [n]);
+  });
+  return children;
+};
+
+// Parent first, root last. Stops early if the links loop, so bad data cannot hang the caller.
+export const getAncestors = <T extends HierarchyNode>(nodes: T[], id: string | null | undefined): T[] => {
+  const byId = new Map(nodes.filter(n => !n.deletedAt).map(n => [n.id, n]));
+  const ancestors: T[] = [];
+  const seen = new Set<string>(id ? [id] : []);
+  for (let parent = id ? byId.get(byId.get(id)?.parentId || '') : undefined; parent; parent = byId.get(parent.parentId || '')) {
+    if (seen.has(parent.id)) break;
+    seen.add(parent.id);
+    ancestors.push(parent);
+  }
+  return ancestors;
+};
+
+export const getDescendantIds = (nodes: HierarchyNode[], id: string): Set<string> => {
+  const children = getChildrenMap(nodes);
+  const descendants = new Set<string>();
+  const visit = (parentId: string) => {
+    (children.get(parentId) || []).forEach(child => {
+      if (descendants.has(child.id) || child.id === id) return;
+      descendants.add(child.id);
+      visit(child.id);
+    });
+  };
+  visit(id);
+  return descendants;
+};
+
+// Checks where a customer sits in `nodes`, which should already hold the links as they would be after
+// a save. The lookups are built once, so one check can be run for many customers.
+export const createHierarchyCheck = (nodes: HierarchyNode[]) => {
+  const byId = new Map(nodes.filter(n => !n.deletedAt).map(n => [n.id, n]));
+  const children = getChildrenMap(nodes);
+
+  // Levels from a customer down to its deepest sub-account, counting the customer itself
+  const heights = new Map<string, number>();
+  const visiting = new Set<string>();
+  const height = (id: string): number => {
+    const known = heights.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0; // Looping links; the walk up reports them
+    visiting.add(id);
+    const result = 1 + (children.get(id) || []).reduce((max, child) => Math.max(max, height(child.id)), 0);
+    visiting.delete(id);
+    heights.set(id, result);
+    return result;
+  };
+
+  return (id: string): string[] => {
+    // Walking up from the customer and meeting it again means it sits under one of its own sub-accounts
+    let depth = 1;
+    const seen = new Set([id]);
+    for (let parentId = byId.get(id)?.parentId; parentId && byId.has(parentId); parentId = byId.get(parentId)?.parentId) {
+      if (parentId === id) return ['A customer cannot be placed under itself or one of its own sub-accounts.'];
+      if (seen.has(parentId)) break;
+      seen.add(parentId);
+      depth++;
+    }
+
+    const levels = depth + height(id) - 1;
+    if (levels > MAX_HIERARCHY_DEPTH) {
+      return [`This would make the hierarchy ${levels} levels deep; the maximum is ${MAX_HIERARCHY_DEPTH}.`];
+    }
+    return [];
+  };
+};
+
+export const getHierarchyErrors = (nodes: HierarchyNode[], id: string): string[] => createHierarchyCheck(nodes)(id);
+
+// "Global Corp › East Region" for East Region: the customer's name after its ancestors', root first
+export const formatHierarchyPath = (nodes: HierarchyNode[], id: string) => {
+  const node = nodes.find(n => n.id === id);
+  return node ? [...getAncestors(nodes, id).reverse(), node].map(n => n.name).join(' › ') : '';
+};
+
+// Paths for every customer at once, for option lists where calling formatHierarchyPath per row would be slow
+export const getHierarchyPaths = (nodes: HierarchyNode[]): Map<string, string> => {
+  const byId = new Map(nodes.filter(n => !n.deletedAt).map(n => [n.id, n]));
+  const paths = new Map<string, string>();
+  const pathOf = (node: HierarchyNode, chain: Set<string>): string => {
+    const known = paths.get(node.id);
+    if (known !== undefined) return known;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    const path = parent && !chain.has(parent.id)
+      ? `${pathOf(parent, new Set([...chain, parent.id]))} › ${node.name}`
+      : node.name;
+    paths.set(node.id, path);
+    return path;
+  };
+  byId.forEach(n => pathOf(n, new Set([n.id])));
+  return paths;
+};
@@ -0,0 +1,47 @@
+import { Customer } from '../types';
+import { CustomerRepository } from './customerRepository';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`${init?.method || 'GET'} ${url} failed (${response.status}): ${body || response.statusText}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const createHttpRepository = (baseUrl: string): CustomerRepository => {
+  const customersUrl = `${baseUrl.replace(/\/$/, '')}/customers`;
+
+  return {
+    backend: 'http',
+    // The server owns its own seed data, so an empty list is a real answer rather than "never written".
+    load: () => request<Customer[]>(customersUrl),
+    // Batches go through the import route so the server can resolve parents created in the same batch
+    create: async (customers) => {
+      if (customers.length === 1) {
+        await request(customersUrl, { method: 'POST', body: JSON.stringify(customers[0]) });
+      } else {
+        await request(`${customersUrl}/import`, { method: 'POST', body: JSON.stringify(customers) });
+      }
+    },
+    // Changed records are stamped one version past the copy they were made from, which is what the server checks
+    update: async (customers) => {
+      for (const customer of customers) {
+        await request(`${customersUrl}/${encodeURIComponent(customer.id)}`, {
+          method: 'PUT',
+          headers: { 'If-Match': `"${customer.version - 1}"` },
+          body: JSON.stringify(customer),
+        });
+      }
+    },
+    remove: async (ids) => {
+      for (const id of ids) {
+        await request(`${customersUrl}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      }
+    },
+  };
+};
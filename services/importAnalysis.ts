@@ -0,0 +1,411 @@
+import {
+  Address,
+  CollectionMergeMode,
+  Contact,
+  Customer,
+  CustomerFormData,
+  CustomerType,
+  FieldChange,
+  ImportMode,
+  ImportRow,
+} from '../types';
+import { diffCustomerFields } from './auditLog';
+import { getAccountNumbers, validateCustomer } from './customerRules';
+import { createHierarchyCheck } from './hierarchy';
+import { parseBoolean } from './importMapping';
+
+export interface ImportError {
+  rowNumber: number;
+  reason: string;
+}
+
+export interface ImportUpdate {
+  before: Customer;
+  after: Customer;
+  changes: FieldChange[];
+}
+
+export interface ImportAnalysis {
+  // Data rows read from the file
+  rowCount: number;
+  validCustomers: Customer[];
+  updates: ImportUpdate[];
+  // Account numbers of existing customers whose rows would not change anything
+  unchangedAccounts: string[];
+  errors: ImportError[];
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  collectionMode: CollectionMergeMode;
+}
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  CREATE: 'Create new only',
+  UPDATE: 'Update existing only',
+  UPSERT: 'Create or update (upsert)',
+};
+
+const sameText = (a = '', b = '') => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const importedId = (prefix: string) => `${prefix}_imp_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+
+// Addresses are the same place when their streets match, or, without a street, their coordinates do
+const sameAddress = (a: Address, b: Address) => {
+  if (a.street?.trim() || b.street?.trim()) return sameText(a.street, b.street);
+  return !!a.latitude && sameText(a.latitude, b.latitude) && sameText(a.longitude, b.longitude);
+};
+
+// Blank gives undefined, anything other than Parent or Direct gives null
+const parseCustomerType = (value: string): CustomerType | undefined | null => {
+  if (!value.trim()) return undefined;
+  const type = value.trim().toUpperCase();
+  return type === CustomerType.PARENT || type === CustomerType.DIRECT ? type : null;
+};
+
+const hasContact = (row: ImportRow) => !!(row.contactName || row.contactEmail);
+
+const hasAddress = (row: ImportRow) =>
+  !!(row.address || row.city || row.state || row.zipCode || row.latitude || row.longitude);
+
+// Rows repeat a contact or an address when the account has more of the other, e.g. two addresses
+// and one contact; each contact (by email) and address (by location) is collected once, flags combined.
+const collectContacts = (groupRows: ImportRow[], makeId: (idx: number) => string): Contact[] => {
+  const contacts: Contact[] = [];
+  groupRows.filter(hasContact).forEach(row => {
+    const seen = contacts.find(c => sameText(c.email, row.contactEmail));
+    if (seen) {
+      seen.isPrimary = seen.isPrimary || row.isPrimary;
+      seen.phone = seen.phone || row.contactPhone;
+      return;
+    }
+    contacts.push({
+      id: makeId(contacts.length),
+      name: row.contactName,
+      email: row.contactEmail,
+      phone: row.contactPhone,
+      isPrimary: row.isPrimary,
+    });
+  });
+  return contacts;
+};
+
+const collectAddresses = (groupRows: ImportRow[]): Address[] => {
+  const addresses: Address[] = [];
+  groupRows.filter(hasAddress).forEach(row => {
+    const address: Address = {
+      id: importedId('addr'),
+      street: row.address,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      city: row.city,
+      state: row.state,
+      zipCode: row.zipCode,
+      isPrimary: row.isPrimaryAddress,
+      isBilling: row.isBillingAddress,
+      isGateProperty: row.isGateProperty,
+    };
+    const seen = addresses.find(a => sameAddress(a, address));
+    if (seen) {
+      seen.isPrimary = seen.isPrimary || address.isPrimary;
+      seen.isBilling = seen.isBilling || address.isBilling;
+      seen.isGateProperty = seen.isGateProperty || address.isGateProperty;
+      return;
+    }
+    addresses.push(address);
+  });
+  return addresses;
+};
+
+// Contacts are matched on email. MERGE updates matches and appends the rest; REPLACE keeps only
+// the imported contacts, reusing the ids of matches so history shows edits rather than remove + add.
+// Rows without contacts leave the existing ones untouched in both modes.
+const combineContacts = (existing: Contact[], imported: Contact[], collectionMode: CollectionMergeMode): Contact[] => {
+  if (imported.length === 0) return existing;
+  const match = (contact: Contact) => existing.find(c => sameText(c.email, contact.email));
+
+  if (collectionMode === 'REPLACE') {
+    return imported.map(c => ({ ...c, id: match(c)?.id || c.id }));
+  }
+
+  const importedPrimary = imported.find(c => c.isPrimary);
+  let merged = existing.map(c => {
+    const update = imported.find(i => sameText(i.email, c.email));
+    return update ? { ...c, name: update.name || c.name, phone: update.phone || c.phone } : c;
+  });
+  imported.filter(c => !match(c)).forEach(c => merged.push({ ...c, isPrimary: false }));
+
+  // A primary flag in the file wins; otherwise the customer keeps its current primary contact
+  if (importedPrimary) {
+    merged = merged.map(c => ({ ...c, isPrimary: sameText(c.email, importedPrimary.email) }));
+  } else if (!merged.some(c => c.isPrimary)) {
+    merged = merged.map((c, idx) => ({ ...c, isPrimary: idx === 0 }));
+  }
+  return merged;
+};
+
+// Same semantics as combineContacts, matching addresses with sameAddress(). In MERGE, empty cells
+// keep the stored value and the primary/billing flags only move when the file sets them.
+const combineAddresses = (existing: Address[], imported: Address[], collectionMode: CollectionMergeMode): Address[] => {
+  if (imported.length === 0) return existing;
+  const match = (address: Address) => existing.find(a => sameAddress(a, address));
+
+  if (collectionMode === 'REPLACE') {
+    return imported.map(a => ({ ...a, id: match(a)?.id || a.id }));
+  }
+
+  let merged = existing.map(a => {
+    const update = imported.find(i => sameAddress(i, a));
+    if (!update) return a;
+    return {
+      ...a,
+      street: update.street || a.street,
+      latitude: update.latitude || a.latitude,
+      longitude: update.longitude || a.longitude,
+      city: update.city || a.city,
+      state: update.state || a.state,
+      zipCode: update.zipCode || a.zipCode,
+      isGateProperty: a.isGateProperty || update.isGateProperty,
+    };
+  });
+  imported.filter(a => !match(a)).forEach(a => merged.push({ ...a, isPrimary: false, isBilling: false }));
+
+  const importedPrimary = imported.find(a => a.isPrimary);
+  if (importedPrimary) merged = merged.map(a => ({ ...a, isPrimary: sameAddress(a, importedPrimary) }));
+  const importedBilling = imported.find(a => a.isBilling);
+  if (importedBilling) merged = merged.map(a => ({ ...a, isBilling: sameAddress(a, importedBilling) }));
+  return merged;
+};
+
+// A lone contact or address needs no flags in the file: it is the primary (and billing) one
+const flagLoneItems = (contacts: Contact[], addresses: Address[]) => {
+  if (contacts.length === 1) contacts[0].isPrimary = true;
+  if (addresses.length === 1) {
+    addresses[0].isPrimary = true;
+    addresses[0].isBilling = true;
+  }
+};
+
+export const analyzeImportRows = (
+  rows: ImportRow[],
+  existingCustomers: Customer[],
+  existingParents: Customer[],
+  { mode, collectionMode }: ImportOptions
+): ImportAnalysis => {
+  const validCustomers: Customer[] = [];
+  const updates: ImportUpdate[] = [];
+  const errors: ImportError[] = [];
+  const unchangedAccounts: string[] = [];
+
+  // Group by Account Number to handle multiple contacts for same customer OR detect duplicates
+  const groupedByAccount: Record<string, ImportRow[]> = {};
+  rows.forEach(row => {
+    const acc = row.accountNumber;
+    if (!groupedByAccount[acc]) {
+      groupedByAccount[acc] = [];
+    }
+    groupedByAccount[acc].push(row);
+  });
+
+  // Account numbers of merged duplicates still find the customer they were merged into
+  const existingByAccount = new Map<string, Customer>();
+  existingCustomers.forEach(c => getAccountNumbers(c).forEach(n => existingByAccount.set(n, c)));
+  const accountsPerCustomer = new Map<string, string[]>();
+  Object.keys(groupedByAccount).forEach(accNum => {
+    const existing = existingByAccount.get(accNum);
+    if (existing) accountsPerCustomer.set(existing.id, [...(accountsPerCustomer.get(existing.id) || []), accNum]);
+  });
+  // The file's account number for each customer it creates or updates
+  const accountOf = new Map<string, string>();
+
+  // Valid Parent Lookup Map (Name -> ID)
+  // Includes existing customers AND customers currently being imported in this batch, at any level
+  const parentNameMap = new Map<string, string>();
+  existingParents.forEach(p => parentNameMap.set(p.name.toLowerCase(), p.id));
+
+  // First Pass: reserve ids for new customers so rows can link to them from anywhere in the file
+  const reservedIds = new Map<string, string>();
+  Object.keys(groupedByAccount).forEach(accNum => {
+    const firstRow = groupedByAccount[accNum][0];
+    if (!existingByAccount.has(accNum) && firstRow.customerName) {
+      const customerId = `cust_import_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+      reservedIds.set(accNum, customerId);
+      parentNameMap.set(firstRow.customerName.toLowerCase(), customerId);
+    }
+  });
+
+  // Second Pass: Validate and Build Objects
+  Object.keys(groupedByAccount).forEach(accNum => {
+    const groupRows = groupedByAccount[accNum];
+    const firstRow = groupRows[0];
+    const fail = (reason: string) => groupRows.forEach(r => errors.push({ rowNumber: r.rowNumber, reason }));
+    const existing = existingByAccount.get(accNum);
+
+    // 1. Basic Validation
+    if (!firstRow.customerName) return fail('Missing Customer Name');
+
+    // 2. Check for Name conflict within group
+    const uniqueNames = new Set(groupRows.map(r => r.customerName));
+    if (uniqueNames.size > 1) {
+      return fail(`Duplicate Account Number '${accNum}' used for different customer names.`);
+    }
+
+    // 3. Match against existing accounts according to the import mode
+    if (existing && mode === 'CREATE') return fail(`Account Number '${accNum}' already exists in the system.`);
+    if (!existing && mode === 'UPDATE') return fail(`Account Number '${accNum}' does not match an existing customer.`);
+    const sameCustomer = existing ? accountsPerCustomer.get(existing.id)! : [];
+    if (sameCustomer.length > 1) {
+      return fail(`Account Numbers ${sameCustomer.map(n => `'${n}'`).join(', ')} all belong to '${existing!.name}'. Use one of them per customer.`);
+    }
+
+    // 4. Contacts and addresses
+    const partialContacts = groupRows.filter(r => hasContact(r) && (!r.contactName || !r.contactEmail));
+    if (partialContacts.length > 0) {
+      partialContacts.forEach(r => errors.push({ rowNumber: r.rowNumber, reason: 'Missing Contact Name or Email.' }));
+      return;
+    }
+
+    const contacts = collectContacts(groupRows, idx => (existing ? importedId('cont') : `cont_imp_${accNum}_${idx}`));
+    const addresses = collectAddresses(groupRows);
+    if (contacts.filter(c => c.isPrimary).length > 1) return fail('Multiple contacts marked as Primary. Only one allowed.');
+    // Merged collections fall back to the customer's current primary contact and address
+    if (!existing || collectionMode === 'REPLACE') flagLoneItems(contacts, addresses);
+
+    // 5. Hierarchy Classification. An empty parent column leaves an existing customer where it is;
+    // a type column overrides the type the parent column implies.
+    const givenType = parseCustomerType(firstRow.customerType);
+    if (givenType === null) return fail(`Customer Type '${firstRow.customerType}' must be Parent or Direct.`);
+    if (givenType === CustomerType.PARENT && firstRow.parentCustomerName) return fail('A Parent Customer cannot have a Parent.');
+    let parentId: string | undefined | null = undefined;
+    if (firstRow.parentCustomerName) {
+      parentId = parentNameMap.get(firstRow.parentCustomerName.toLowerCase());
+      if (!parentId) return fail(`Parent Customer '${firstRow.parentCustomerName}' not found (in system or file).`);
+    }
+
+    if (existing) {
+      let type = givenType || existing.type;
+      if (parentId) {
+        if (parentId === existing.id) return fail('A customer cannot be its own parent.');
+        type = CustomerType.DIRECT;
+      }
+
+      const after: Customer = {
+        ...existing,
+        name: firstRow.customerName,
+        type,
+        isVip: firstRow.isVip ? parseBoolean(firstRow.isVip) : existing.isVip,
+        parentId: type === CustomerType.PARENT ? null : parentId || existing.parentId,
+        contacts: combineContacts(existing.contacts, contacts, collectionMode),
+        addresses: combineAddresses(existing.addresses, addresses, collectionMode),
+      };
+      const ruleErrors = validateCustomer({ ...after, parentId: after.parentId ?? null }, existingCustomers, existing.id);
+      if (ruleErrors.length > 0) return fail(ruleErrors.join(' '));
+
+      const changes = diffCustomerFields(existing, after);
+      accountOf.set(existing.id, accNum);
+      if (changes.length > 0) updates.push({ before: existing, after, changes });
+      else unchangedAccounts.push(accNum);
+      return;
+    }
+
+    // 6. Build Customer Object, checked with the same rules as the customer form
+    const type = givenType || (parentId ? CustomerType.DIRECT : CustomerType.PARENT);
+    const data: CustomerFormData = {
+      type,
+      name: firstRow.customerName,
+      accountNumber: firstRow.accountNumber,
+      isVip: parseBoolean(firstRow.isVip),
+      addresses,
+      parentId: type === CustomerType.DIRECT ? parentId : undefined,
+      contacts,
+    };
+    const ruleErrors = validateCustomer(data, [...existingCustomers, ...validCustomers]);
+    if (ruleErrors.length > 0) return fail(ruleErrors.join(' '));
+
+    accountOf.set(reservedIds.get(accNum)!, accNum);
+    validCustomers.push({
+      ...data,
+      id: reservedIds.get(accNum)!,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      version: 1,
+    });
+  });
+
+  // Parents may come later in the file or fail their own checks, so links and hierarchy limits
+  // are checked again once every group is built. Dropping a customer can strand its children,
+  // hence the loop.
+  const failGroup = (accNum: string, reason: string) =>
+    groupedByAccount[accNum].forEach(r => errors.push({ rowNumber: r.rowNumber, reason }));
+  let keptCustomers = validCustomers;
+  let keptUpdates = updates;
+  for (let dropped = true; dropped; ) {
+    dropped = false;
+    const plannedById = new Map([...existingParents, ...existingCustomers].map(c => [c.id, c]));
+    keptUpdates.forEach(u => plannedById.set(u.after.id, u.after));
+    keptCustomers.forEach(c => plannedById.set(c.id, c));
+    const planned = [...plannedById.values()];
+    const plannedIds = new Set(planned.map(c => c.id));
+    const hierarchyErrors = createHierarchyCheck(planned);
+    const check = (customer: Customer) => {
+      const accNum = accountOf.get(customer.id)!;
+      const reason = customer.parentId && !plannedIds.has(customer.parentId)
+        ? `Parent Customer '${groupedByAccount[accNum][0].parentCustomerName}' could not be imported.`
+        : hierarchyErrors(customer.id).join(' ');
+      if (reason) {
+        failGroup(accNum, reason);
+        dropped = true;
+      }
+      return !reason;
+    };
+    keptCustomers = keptCustomers.filter(check);
+    keptUpdates = keptUpdates.filter(u => check(u.after));
+  }
+
+  return {
+    rowCount: rows.length,
+    validCustomers: keptCustomers,
+    updates: keptUpdates,
+    unchangedAccounts,
+    errors: errors.sort((a, b) => a.rowNumber - b.rowNumber),
+  };
+};
+
+// Re-checks only the account groups an edit touched, keeping every other result. Groups whose rows
+// name one of those customers as parent are re-checked too, since their parent link depends on it.
+export const reanalyzeAccounts = (
+  analysis: ImportAnalysis,
+  rows: ImportRow[],
+  accountNumbers: string[],
+  existingCustomers: Customer[],
+  existingParents: Customer[],
+  options: ImportOptions
+): ImportAnalysis => {
+  const affected = new Set(accountNumbers);
+  let size = 0;
+  while (size !== affected.size) {
+    size = affected.size;
+    const names = new Set([
+      ...rows.filter(r => affected.has(r.accountNumber)).map(r => r.customerName.toLowerCase()),
+      ...analysis.validCustomers.filter(c => affected.has(c.accountNumber)).map(c => c.name.toLowerCase()),
+    ]);
+    rows.forEach(r => {
+      if (r.parentCustomerName && names.has(r.parentCustomerName.toLowerCase())) affected.add(r.accountNumber);
+    });
+  }
+
+  const affectedRows = rows.filter(r => affected.has(r.accountNumber));
+  const affectedRowNumbers = new Set(affectedRows.map(r => r.rowNumber));
+  const keptCustomers = analysis.validCustomers.filter(c => !affected.has(c.accountNumber));
+  // Kept customers from the file can still be parents of the re-checked rows
+  const partial = analyzeImportRows(affectedRows, existingCustomers, [...existingParents, ...keptCustomers], options);
+
+  return {
+    rowCount: analysis.rowCount,
+    validCustomers: [...keptCustomers, ...partial.validCustomers],
+    updates: [...analysis.updates.filter(u => !getAccountNumbers(u.after).some(n => affected.has(n))), ...partial.updates],
+    unchangedAccounts: [...analysis.unchangedAccounts.filter(a => !affected.has(a)), ...partial.unchangedAccounts],
+    errors: [...analysis.errors.filter(e => !affectedRowNumbers.has(e.rowNumber)), ...partial.errors]
+      .sort((a, b) => a.rowNumber - b.rowNumber),
+  };
+};
@@ -0,0 +1,79 @@
+import { Customer, CustomerType, ImportBatch } from '../types';
+
+export const IMPORT_BATCHES_STORAGE_KEY = 'customer_import_batches';
+
+export interface RollbackPlan {
+  // Customers the batch created, including any since moved to the Trash
+  remove: Customer[];
+  // Customers outside the batch that were linked under a parent it created; they become standalone
+  detach: Customer[];
+  // Pre-import snapshots of the customers the batch updated
+  revert: Customer[];
+  // Customers the batch updated that have changed again since; rolling back leaves them as they are
+  skipped: Customer[];
+}
+
+export const planRollback = (records: Customer[], batch: ImportBatch): RollbackPlan => {
+  const remove = records.filter(c => c.importBatchId === batch.id);
+  const removedIds = new Set(remove.map(c => c.id));
+
+  const revert: Customer[] = [];
+  const skipped: Customer[] = [];
+  batch.updatedBefore.forEach(before => {
+    const current = records.find(c => c.id === before.id);
+    if (!current) return;
+    // The import bumped the version by exactly one; anything more means a later edit
+    if (current.version === (before.version || 0) + 1) revert.push(before);
+    else skipped.push(current);
+  });
+  const revertedIds = new Set(revert.map(c => c.id));
+
+  const detach = records.filter(
+    c => !removedIds.has(c.id) && !revertedIds.has(c.id) && !!c.parentId && removedIds.has(c.parentId)
+  );
+
+  return { remove, detach, revert, skipped };
+};
+
+export const applyRollback = (records: Customer[], plan: RollbackPlan): Customer[] => {
+  const removedIds = new Set(plan.remove.map(c => c.id));
+  const detachedIds = new Set(plan.detach.map(c => c.id));
+  const revertById = new Map(plan.revert.map(c => [c.id, c]));
+
+  return records
+    .filter(c => !removedIds.has(c.id))
+    .map(c => {
+      const before = revertById.get(c.id);
+      if (before) return { ...before };
+      if (detachedIds.has(c.id)) return { ...c, parentId: null, type: CustomerType.PARENT };
+      return c;
+    });
+};
+
+const isImportBatch = (value: unknown): value is ImportBatch => {
+  if (!value || typeof value !== 'object') return false;
+  const batch = value as Record<string, unknown>;
+  return typeof batch.id === 'string'
+    && typeof batch.importedAt === 'string'
+    && typeof batch.fileName === 'string'
+    && typeof batch.createdCount === 'number'
+    && Array.isArray(batch.updatedBefore);
+};
+
+// Unreadable history is described to `onError` and replaced by an empty one
+export const loadImportBatches = (onError?: (message: string) => void): ImportBatch[] => {
+  try {
+    const saved = localStorage.getItem(IMPORT_BATCHES_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed) || !parsed.every(isImportBatch)) throw new Error('it is not a list of imports');
+    return parsed;
+  } catch (err) {
+    onError?.(`The import history could not be read (${(err as Error).message}); a new one was started.`);
+    return [];
+  }
+};
+
+export const saveImportBatches = (batches: ImportBatch[]) => {
+  localStorage.setItem(IMPORT_BATCHES_STORAGE_KEY, JSON.stringify(batches));
+};
@@ -0,0 +1,211 @@
+import { Address, Contact, Customer, ImportField, ImportRow } from '../types';
+import { toCsvLine } from './customerExport';
+
+const PRESETS_STORAGE_KEY = 'customer_import_mapping_presets';
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Header spellings that are auto-matched to this field, compared after normalizeHeader()
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'customerName', label: 'Customer Name', required: true, aliases: ['customername', 'customer', 'name', 'company', 'companyname', 'accountname'] },
+  { field: 'accountNumber', label: 'Account Number', required: true, aliases: ['accountnumber', 'account', 'accountno', 'acctno', 'acct', 'customernumber', 'customerid'] },
+  { field: 'parentCustomerName', label: 'Parent Customer Name', required: false, aliases: ['parentcustomername', 'parent', 'parentname', 'parentcustomer', 'parentaccount'] },
+  { field: 'address', label: 'Street Address', required: false, aliases: ['streetaddress', 'address', 'street', 'address1', 'addressline1'] },
+  { field: 'city', label: 'City', required: false, aliases: ['city', 'town'] },
+  { field: 'state', label: 'State', required: false, aliases: ['state', 'province', 'region'] },
+  { field: 'zipCode', label: 'Zip Code', required: false, aliases: ['zipcode', 'zip', 'postalcode', 'postcode'] },
+  { field: 'latitude', label: 'Latitude', required: false, aliases: ['latitude', 'lat'] },
+  { field: 'longitude', label: 'Longitude', required: false, aliases: ['longitude', 'long', 'lng', 'lon'] },
+  { field: 'isPrimaryAddress', label: 'Is Primary Address', required: false, aliases: ['isprimaryaddress', 'primaryaddress', 'primarylocation', 'isprimarylocation'] },
+  { field: 'isBillingAddress', label: 'Is Billing Address', required: false, aliases: ['isbillingaddress', 'billingaddress', 'billing', 'isbilling'] },
+  { field: 'isGateProperty', label: 'Is Gate Property', required: false, aliases: ['isgateproperty', 'gateproperty', 'gate', 'gated'] },
+  { field: 'contactName', label: 'Contact Name', required: true, aliases: ['contactname', 'contact', 'contactperson'] },
+  { field: 'contactEmail', label: 'Contact Email', required: true, aliases: ['contactemail', 'email', 'emailaddress', 'mail'] },
+  { field: 'contactPhone', label: 'Contact Phone', required: false, aliases: ['contactphone', 'phone', 'phonenumber', 'telephone', 'tel', 'mobile'] },
+  { field: 'isPrimary', label: 'Is Primary Contact', required: false, aliases: ['isprimarycontact', 'isprimary', 'primary', 'primarycontact'] },
+  { field: 'customerType', label: 'Customer Type', required: false, aliases: ['customertype', 'type', 'accounttype'] },
+  { field: 'isVip', label: 'Is VIP', required: false, aliases: ['isvip', 'vip', 'vipcustomer'] },
+];
+
+// Target field per source column, by column index; null means the column is ignored
+export type ColumnMapping = (ImportField | null)[];
+
+export interface MappingPreset {
+  name: string;
+  // Keyed by normalized header, so a preset still applies when columns are reordered
+  columns: Record<string, ImportField | null>;
+}
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Matches each header to the first unused field whose aliases include it
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const key = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find(f => !used.has(f.field) && f.aliases.includes(key));
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+};
+
+export const applyPreset = (headers: string[], preset: MappingPreset): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const field = preset.columns[normalizeHeader(header)] ?? null;
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+export const toPreset = (name: string, headers: string[], mapping: ColumnMapping): MappingPreset => ({
+  name,
+  columns: Object.fromEntries(headers.map((header, idx) => [normalizeHeader(header), mapping[idx] ?? null])),
+});
+
+export const getMissingRequiredFields = (mapping: ColumnMapping) =>
+  IMPORT_FIELDS.filter(f => f.required && !mapping.includes(f.field));
+
+export const parseBoolean = (value: string) => ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+
+// `rowNumbers` are the file row numbers of `rows`, for error messages
+export const mapRows = (rows: string[][], mapping: ColumnMapping, rowNumbers: number[]): ImportRow[] =>
+  rows.map((cols, index) => {
+    const value = (field: ImportField) => {
+      const idx = mapping.indexOf(field);
+      return idx === -1 ? '' : (cols[idx] || '').trim();
+    };
+    return {
+      rowNumber: rowNumbers[index],
+      customerName: value('customerName'),
+      accountNumber: value('accountNumber'),
+      parentCustomerName: value('parentCustomerName'),
+      address: value('address'),
+      city: value('city'),
+      state: value('state'),
+      zipCode: value('zipCode'),
+      latitude: value('latitude'),
+      longitude: value('longitude'),
+      isPrimaryAddress: parseBoolean(value('isPrimaryAddress')),
+      isBillingAddress: parseBoolean(value('isBillingAddress')),
+      isGateProperty: parseBoolean(value('isGateProperty')),
+      contactName: value('contactName'),
+      contactEmail: value('contactEmail'),
+      contactPhone: value('contactPhone'),
+      isPrimary: parseBoolean(value('isPrimary')),
+      customerType: value('customerType'),
+      isVip: value('isVip'),
+    };
+  });
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+// Shapes of the objects in a JSON file, whose values are not trusted to have the types the app uses
+type Untrusted<T> = { [K in keyof T]?: unknown };
+type CustomerObject = Untrusted<Customer> & { parentCustomerName?: unknown };
+
+const isObject = (value: unknown): value is object => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const objectsIn = <T>(value: unknown): Untrusted<T>[] => (Array.isArray(value) ? value.filter(isObject) : []);
+
+// Customer-shaped JSON objects are laid out like the CSV export: row N carries the Nth address and
+// the Nth contact. Parent ids are turned back into names, looking in the file first.
+export const mapCustomerObjects = (objects: unknown[], knownCustomers: Customer[]): ImportRow[] => {
+  if (!objects.every(isObject)) {
+    throw new Error('Every entry of the array must be a customer object.');
+  }
+  const records: CustomerObject[] = objects;
+  const nameById = new Map<string, string>();
+  [...knownCustomers, ...records].forEach(c => {
+    if (c.id) nameById.set(String(c.id), text(c.name));
+  });
+
+  let rowNumber = 0;
+  return records.flatMap(record => {
+    const addresses = objectsIn<Address>(record.addresses);
+    const contacts = objectsIn<Contact>(record.contacts);
+    const parentId = text(record.parentId);
+    // An unknown parent id is kept as the name, so the row fails with "Parent Customer ... not found"
+    const parentCustomerName = text(record.parentCustomerName) || (parentId ? nameById.get(parentId) || parentId : '');
+
+    return Array.from({ length: Math.max(addresses.length, contacts.length, 1) }, (_, idx) => {
+      const address: Untrusted<Address> = addresses[idx] || {};
+      const contact: Untrusted<Contact> = contacts[idx] || {};
+      rowNumber++;
+      return {
+        rowNumber,
+        customerName: text(record.name),
+        accountNumber: text(record.accountNumber),
+        parentCustomerName,
+        address: text(address.street),
+        city: text(address.city),
+        state: text(address.state),
+        zipCode: text(address.zipCode),
+        latitude: text(address.latitude),
+        longitude: text(address.longitude),
+        isPrimaryAddress: !!address.isPrimary,
+        isBillingAddress: !!address.isBilling,
+        isGateProperty: !!address.isGateProperty,
+        contactName: text(contact.name),
+        contactEmail: text(contact.email),
+        contactPhone: text(contact.phone),
+        isPrimary: !!contact.isPrimary,
+        customerType: text(record.type),
+        isVip: record.isVip === undefined ? '' : record.isVip ? 'TRUE' : 'FALSE',
+      };
+    });
+  });
+};
+
+// Writes the rows that have errors back out with a column listing them. The field columns use the
+// import labels, so a corrected file maps itself when it is uploaded again.
+export const importRowsToCsv = (rows: ImportRow[], errors: { rowNumber: number; reason: string }[]): string => {
+  const reasonsByRow = new Map<number, string[]>();
+  errors.forEach(e => reasonsByRow.set(e.rowNumber, [...(reasonsByRow.get(e.rowNumber) || []), e.reason]));
+
+  const lines = rows
+    .filter(row => reasonsByRow.has(row.rowNumber))
+    .map(row => toCsvLine([
+      String(row.rowNumber),
+      ...IMPORT_FIELDS.map(({ field }) => {
+        const value = row[field];
+        return typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE') : value;
+      }),
+      reasonsByRow.get(row.rowNumber)!.join(' | '),
+    ]));
+
+  return [toCsvLine(['Source Row', ...IMPORT_FIELDS.map(f => f.label), 'Errors']), ...lines].join('\n');
+};
+
+const isMappingPreset = (value: unknown): value is MappingPreset => {
+  if (!isObject(value)) return false;
+  const preset = value as Record<string, unknown>;
+  return typeof preset.name === 'string'
+    && isObject(preset.columns)
+    && Object.values(preset.columns).every(field => field === null || IMPORT_FIELDS.some(f => f.field === field));
+};
+
+// Unreadable presets are described to `onError` and replaced by an empty list
+export const loadMappingPresets = (onError?: (message: string) => void): MappingPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed) || !parsed.every(isMappingPreset)) throw new Error('it is not a list of mappings');
+    return parsed;
+  } catch (err) {
+    onError?.(`The saved column mappings could not be read (${(err as Error).message}); a new list was started.`);
+    return [];
+  }
+};
+
+export const saveMappingPresets = (presets: MappingPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,121 @@
+import { Customer } from '../types';
+import { CustomerRepository } from './customerRepository';
+import { CURRENT_SCHEMA_VERSION, migrateCustomers } from './migrations';
+
+const DB_NAME = 'customerflow';
+const DB_VERSION = 1;
+const CUSTOMER_STORE = 'customers';
+const META_STORE = 'meta';
+const INITIALIZED_KEY = 'initialized';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const QUARANTINE_KEY_PREFIX = 'quarantine_';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CUSTOMER_STORE)) {
+        db.createObjectStore(CUSTOMER_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbRepository = (): CustomerRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  // Records are written with put(), so create and update are both upserts.
+  const putAll = async (customers: Customer[]) => {
+    const db = await getDb();
+    const tx = db.transaction([CUSTOMER_STORE, META_STORE], 'readwrite');
+    const store = tx.objectStore(CUSTOMER_STORE);
+    customers.forEach(c => store.put(c));
+    const meta = tx.objectStore(META_STORE);
+    meta.put(true, INITIALIZED_KEY);
+    meta.put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+    await transactionDone(tx);
+  };
+
+  // Replaces the stored records with their upgraded form, or moves them into the meta
+  // store under a backup key when they cannot be upgraded.
+  const upgradeStored = async (
+    records: unknown[],
+    storedVersion: number,
+    onWarning?: (message: string) => void,
+  ): Promise<Customer[] | null> => {
+    let migrated: Customer[] | null = null;
+    let failure = '';
+    try {
+      migrated = migrateCustomers(records, storedVersion);
+    } catch (err) {
+      failure = err instanceof Error ? err.message : String(err);
+    }
+    const backupKey = `${QUARANTINE_KEY_PREFIX}${new Date().toISOString()}`;
+
+    const db = await getDb();
+    const tx = db.transaction([CUSTOMER_STORE, META_STORE], 'readwrite');
+    const store = tx.objectStore(CUSTOMER_STORE);
+    const meta = tx.objectStore(META_STORE);
+    store.clear();
+    if (migrated) {
+      migrated.forEach(c => store.put(c));
+      meta.put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+    } else {
+      meta.put({ schemaVersion: storedVersion, customers: records }, backupKey);
+      meta.delete(INITIALIZED_KEY);
+    }
+    await transactionDone(tx);
+    if (!migrated) {
+      onWarning?.(`Stored customer data (schema version ${storedVersion}) could not be loaded (${failure}) and was moved to '${backupKey}' in the '${META_STORE}' store.`);
+    }
+    return migrated;
+  };
+
+  return {
+    backend: 'indexedDB',
+    load: async (onWarning) => {
+      const db = await getDb();
+      const tx = db.transaction([CUSTOMER_STORE, META_STORE], 'readonly');
+      const meta = tx.objectStore(META_STORE);
+      const initialized = await requestToPromise(meta.get(INITIALIZED_KEY));
+      if (!initialized) return null;
+
+      // Databases written before versioning was introduced are at schema version 2
+      const storedVersion = (await requestToPromise(meta.get(SCHEMA_VERSION_KEY))) ?? 2;
+      const records = await requestToPromise<Customer[]>(tx.objectStore(CUSTOMER_STORE).getAll());
+      if (storedVersion === CURRENT_SCHEMA_VERSION) return records;
+      return upgradeStored(records, storedVersion, onWarning);
+    },
+    create: putAll,
+    update: putAll,
+    remove: async (ids) => {
+      const db = await getDb();
+      const tx = db.transaction(CUSTOMER_STORE, 'readwrite');
+      const store = tx.objectStore(CUSTOMER_STORE);
+      ids.forEach(id => store.delete(id));
+      await transactionDone(tx);
+    },
+  };
+};
@@ -0,0 +1,116 @@
+import { ListViewState, SavedView, SortField } from '../types';
+import { CURRENT_USER } from '../constants';
+
+// Saved views belong to the signed-in user, so each user keeps their own list
+const SAVED_VIEWS_STORAGE_KEY = `customer_saved_views_${CURRENT_USER.name}`;
+
+export const DEFAULT_LIST_STATE: ListViewState = {
+  query: '',
+  layout: 'TREE',
+  sort: { field: 'name', direction: 'asc' },
+  page: 1,
+  expandedIds: [],
+  collapsedIds: [],
+};
+
+const SORT_FIELDS: SortField[] = ['name', 'accountNumber', 'type', 'relevance'];
+
+// Query string parameters; defaults are left out so an untouched list keeps a clean URL
+const PARAMS = {
+  query: 'q',
+  layout: 'layout',
+  sort: 'sort',
+  direction: 'dir',
+  page: 'page',
+  expanded: 'open',
+  collapsed: 'closed',
+} as const;
+
+const splitIds = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+// Unknown or malformed parameters fall back to the defaults, so a hand-edited link still opens
+export const decodeListState = (search: string): ListViewState => {
+  const params = new URLSearchParams(search);
+  const sortField = params.get(PARAMS.sort) as SortField | null;
+  const page = Number(params.get(PARAMS.page));
+  return {
+    query: params.get(PARAMS.query) || '',
+    layout: params.get(PARAMS.layout)?.toUpperCase() === 'FLAT' ? 'FLAT' : 'TREE',
+    sort: {
+      field: sortField && SORT_FIELDS.includes(sortField) ? sortField : DEFAULT_LIST_STATE.sort.field,
+      direction: params.get(PARAMS.direction) === 'desc' ? 'desc' : 'asc',
+    },
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+    expandedIds: splitIds(params.get(PARAMS.expanded)),
+    collapsedIds: splitIds(params.get(PARAMS.collapsed)),
+  };
+};
+
+// Writes the list parameters into `search`, keeping any others already there
+export const encodeListState = (state: ListViewState, search = ''): string => {
+  const params = new URLSearchParams(search);
+  Object.values(PARAMS).forEach(key => params.delete(key));
+  if (state.query.trim()) params.set(PARAMS.query, state.query);
+  if (state.layout !== DEFAULT_LIST_STATE.layout) params.set(PARAMS.layout, state.layout.toLowerCase());
+  if (state.sort.field !== DEFAULT_LIST_STATE.sort.field) params.set(PARAMS.sort, state.sort.field);
+  if (state.sort.direction !== DEFAULT_LIST_STATE.sort.direction) params.set(PARAMS.direction, state.sort.direction);
+  if (state.page > 1) params.set(PARAMS.page, String(state.page));
+  if (state.expandedIds.length > 0) params.set(PARAMS.expanded, state.expandedIds.join(','));
+  if (state.collapsedIds.length > 0) params.set(PARAMS.collapsed, state.collapsedIds.join(','));
+  const encoded = params.toString();
+  return encoded ? `?${encoded}` : '';
+};
+
+// Compares everything a saved view stores; the page is ignored
+export const isSameView = (a: Omit<ListViewState, 'page'>, b: Omit<ListViewState, 'page'>) => {
+  const sameIds = (x: string[], y: string[]) => x.length === y.length && x.every(id => y.includes(id));
+  return a.query.trim() === b.query.trim()
+    && a.layout === b.layout
+    && a.sort.field === b.sort.field
+    && a.sort.direction === b.sort.direction
+    && sameIds(a.expandedIds, b.expandedIds)
+    && sameIds(a.collapsedIds, b.collapsedIds);
+};
+
+export const toSavedView = (name: string, { page, ...state }: ListViewState): SavedView => ({
+  id: `view_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+  name,
+  state,
+  createdAt: new Date().toISOString(),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isIdList = (value: unknown) => Array.isArray(value) && value.every(id => typeof id === 'string');
+
+const isSavedView = (value: unknown): value is SavedView => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return false;
+  const { state } = value;
+  return isObject(state)
+    && typeof state.query === 'string'
+    && (state.layout === 'TREE' || state.layout === 'FLAT')
+    && isObject(state.sort)
+    && SORT_FIELDS.includes(state.sort.field as SortField)
+    && (state.sort.direction === 'asc' || state.sort.direction === 'desc')
+    && isIdList(state.expandedIds)
+    && isIdList(state.collapsedIds);
+};
+
+// Unreadable views are described to `onError` and replaced by an empty list
+export const loadSavedViews = (onError?: (message: string) => void): SavedView[] => {
+  try {
+    const saved = localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed) || !parsed.every(isSavedView)) throw new Error('it is not a list of views');
+    return parsed;
+  } catch (err) {
+    onError?.(`The saved views could not be read (${(err as Error).message}); a new list was started.`);
+    return [];
+  }
+};
+
+export const saveSavedViews = (views: SavedView[]) => {
+  localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(views));
+};
@@ -0,0 +1,76 @@
+import { Customer } from '../types';
+import { CustomerRepository } from './customerRepository';
+import { parsePersistedCustomers, serializeCustomers } from './migrations';
+
+const STORAGE_KEY = 'customer_db';
+const QUARANTINE_KEY_PREFIX = 'customer_db_quarantine_';
+
+// Keys written by earlier releases, newest first. Before the versioned envelope,
+// `customer_db` held a bare v1 array and `customer_db_v2` a bare v2 array.
+const LEGACY_KEYS: { key: string; bareArrayVersion: number }[] = [
+  { key: 'customer_db_v2', bareArrayVersion: 2 },
+];
+
+// Moves an unreadable payload aside so it can be recovered by hand instead of being overwritten
+const quarantine = (key: string, raw: string, reason: unknown) => {
+  const backupKey = `${QUARANTINE_KEY_PREFIX}${new Date().toISOString()}`;
+  localStorage.setItem(backupKey, raw);
+  localStorage.removeItem(key);
+  const detail = reason instanceof Error ? reason.message : String(reason);
+  return `Stored customer data in '${key}' could not be loaded (${detail}) and was moved to '${backupKey}'.`;
+};
+
+// Only a load quarantines unreadable data, as only a load can tell the user; a write fails instead
+const readKey = (key: string, bareArrayVersion: number, onWarning?: (message: string) => void): Customer[] | null => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return parsePersistedCustomers(raw, bareArrayVersion);
+  } catch (err) {
+    if (!onWarning) throw err;
+    onWarning(quarantine(key, raw, err));
+    return null;
+  }
+};
+
+const writeAll = (customers: Customer[]) => {
+  localStorage.setItem(STORAGE_KEY, serializeCustomers(customers));
+};
+
+const readAll = (onWarning?: (message: string) => void): Customer[] | null => {
+  // Older payloads under the current key are upgraded in memory; the next write saves them in the current schema
+  const current = readKey(STORAGE_KEY, 1, onWarning);
+  if (current) return current;
+
+  for (const legacy of LEGACY_KEYS) {
+    const migrated = readKey(legacy.key, legacy.bareArrayVersion, onWarning);
+    if (migrated) {
+      writeAll(migrated);
+      localStorage.removeItem(legacy.key);
+      return migrated;
+    }
+  }
+  return null;
+};
+
+// Writes are upserts keyed by id, so replaying the same change is harmless.
+const upsert = (customers: Customer[]) => {
+  const byId = new Map(customers.map(c => [c.id, c]));
+  const existing = readAll() || [];
+  const merged = existing.map(c => byId.get(c.id) || c);
+  const existingIds = new Set(existing.map(c => c.id));
+  customers.forEach(c => {
+    if (!existingIds.has(c.id)) merged.push(c);
+  });
+  writeAll(merged);
+};
+
+export const createLocalStorageRepository = (): CustomerRepository => ({
+  backend: 'localStorage',
+  load: async (onWarning) => readAll(onWarning ?? (() => {})),
+  create: async (customers) => upsert(customers),
+  update: async (customers) => upsert(customers),
+  remove: async (ids) => {
+    writeAll((readAll() || []).filter(c => !ids.includes(c.id)));
+  },
+});
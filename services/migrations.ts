@@ -0,0 +1,105 @@
+import { Address, Customer } from '../types';
+
+// Bump this and register a step below whenever the persisted Customer shape changes.
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export interface PersistedCustomerData {
+  schemaVersion: number;
+  customers: Customer[];
+}
+
+// A stored record as read back, before it has been checked against any schema
+type StoredRecord = Record<string, unknown>;
+
+interface Migration {
+  // Upgrades a payload stored at `from` to `from + 1`
+  from: number;
+  description: string;
+  up: (customers: StoredRecord[]) => StoredRecord[];
+}
+
+const optionalText = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // v1 kept a single flat address (address, latitude, longitude, city, state, zipCode, isGateProperty)
+    // on the customer record
+    from: 1,
+    description: 'Move the flat address fields into an addresses array',
+    up: (customers) =>
+      customers.map(({ address, latitude, longitude, city, state, zipCode, isGateProperty, ...rest }) => {
+        const primaryAddress: Address = {
+          id: `addr_${String(rest.id)}_1`,
+          street: optionalText(address),
+          latitude: optionalText(latitude),
+          longitude: optionalText(longitude),
+          city: optionalText(city) || '',
+          state: optionalText(state) || '',
+          zipCode: optionalText(zipCode) || '',
+          isPrimary: true,
+          isBilling: true,
+          isGateProperty: !!isGateProperty,
+        };
+        const hasAddress = !!(address || latitude || longitude || city || state || zipCode);
+        return {
+          ...rest,
+          isVip: !!rest.isVip,
+          contacts: Array.isArray(rest.contacts) ? rest.contacts : [],
+          createdAt: optionalText(rest.createdAt) || new Date().toISOString(),
+          addresses: hasAddress ? [primaryAddress] : [],
+        };
+      }),
+  },
+  {
+    from: 2,
+    description: 'Add record version and last-updated timestamp',
+    up: (customers) => customers.map(c => ({ ...c, version: 1, updatedAt: c.createdAt })),
+  },
+];
+
+const isStoredRecord = (value: unknown): value is StoredRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The fields the app cannot do without; anything less is treated as corrupt data
+const isCustomerRecord = (record: StoredRecord): record is StoredRecord & Customer =>
+  typeof record.id === 'string'
+  && typeof record.name === 'string'
+  && typeof record.accountNumber === 'string'
+  && Array.isArray(record.addresses)
+  && Array.isArray(record.contacts);
+
+export const migrateCustomers = (customers: unknown[], fromVersion: number): Customer[] => {
+  if (!Number.isInteger(fromVersion) || fromVersion < 1 || fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Unknown schema version: ${fromVersion}`);
+  }
+
+  if (!customers.every(isStoredRecord)) throw new Error('Stored customer data contains an entry that is not a record');
+  let result: StoredRecord[] = customers;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) throw new Error(`No migration registered from schema version ${version}`);
+    result = step.up(result);
+  }
+  if (!result.every(isCustomerRecord)) throw new Error('Stored customer data is missing required customer fields');
+  return result;
+};
+
+// Reads a stored payload into the current schema. Bare arrays predate the versioned
+// envelope, so the caller says which version they were written with.
+// Throws if the payload is corrupt or its version cannot be upgraded.
+export const parsePersistedCustomers = (raw: string, bareArrayVersion: number): Customer[] => {
+  const parsed = JSON.parse(raw);
+
+  if (Array.isArray(parsed)) {
+    return migrateCustomers(parsed, bareArrayVersion);
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray(parsed.customers)) {
+    return migrateCustomers(parsed.customers, parsed.schemaVersion);
+  }
+  throw new Error('Stored customer data is not in a recognised format');
+};
+
+export const serializeCustomers = (customers: Customer[]): string => {
+  const data: PersistedCustomerData = { schemaVersion: CURRENT_SCHEMA_VERSION, customers };
+  return JSON.stringify(data);
+};
@@ -0,0 +1,20 @@
+import { Customer } from '../types';
+
+// Bumps `version` and `updatedAt` on every record that differs from `prev`.
+// Records are updated immutably, so an unchanged reference means an unchanged record.
+export const stampVersions = (prev: Customer[], next: Customer[]): Customer[] => {
+  const prevById = new Map(prev.map(c => [c.id, c]));
+  const now = new Date().toISOString();
+
+  return next.map(c => {
+    const before = prevById.get(c.id);
+    if (before === c) return c;
+    if (!before) {
+      return { ...c, version: c.version || 1, updatedAt: c.updatedAt || now };
+    }
+    return { ...c, version: (before.version || 0) + 1, updatedAt: now };
+  });
+};
+
+export const isStale = (current: Customer, baseVersion: number | undefined) =>
+  baseVersion !== undefined && current.version !== baseVersion;
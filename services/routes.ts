@@ -0,0 +1,52 @@
+import { Route } from '../types';
+
+// Path for each screen. `/` opens the list.
+export const routeToPath = (route: Route): string => {
+  switch (route.name) {
+    case 'LIST': return '/customers';
+    case 'CREATE': return '/customers/new';
+    case 'CUSTOMER': return `/customers/${encodeURIComponent(route.id)}`;
+    case 'EDIT': return `/customers/${encodeURIComponent(route.id)}/edit`;
+    case 'IMPORT': return '/import';
+    case 'IMPORT_HISTORY': return '/import/history';
+    case 'TRASH': return '/trash';
+    case 'HIERARCHY': return '/hierarchy';
+    case 'DUPLICATES': return '/duplicates';
+    case 'NOT_FOUND': return route.path;
+  }
+};
+
+// Whether an id names a real customer is up to the screen; this only reads the path
+export const parseRoute = (pathname: string): Route => {
+  const segments = pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  const [first, id, sub, ...rest] = segments;
+  const notFound: Route = { name: 'NOT_FOUND', path: pathname };
+  if (rest.length > 0) return notFound;
+
+  switch (first) {
+    case undefined:
+      return { name: 'LIST' };
+    case 'customers':
+      if (!id) return { name: 'LIST' };
+      if (id === 'new') return sub ? notFound : { name: 'CREATE' };
+      if (!sub) return { name: 'CUSTOMER', id };
+      return sub === 'edit' ? { name: 'EDIT', id } : notFound;
+    case 'import':
+      if (!id) return { name: 'IMPORT' };
+      return id === 'history' && !sub ? { name: 'IMPORT_HISTORY' } : notFound;
+    case 'trash':
+      return id ? notFound : { name: 'TRASH' };
+    case 'hierarchy':
+      return id ? notFound : { name: 'HIERARCHY' };
+    case 'duplicates':
+      return id ? notFound : { name: 'DUPLICATES' };
+    default:
+      return notFound;
+  }
+};
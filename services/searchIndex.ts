@@ -0,0 +1,240 @@
+import { Customer } from '../types';
+import { CustomerChangeSet } from './customerRepository';
+
+// In-memory inverted index over every text field of the active customers: name, account numbers,
+// addresses and contacts. Search is typo-tolerant and ranked; matched words are reported so the
+// list can highlight them. The data hook keeps it current with each change set instead of
+// rebuilding it, so a search costs the same however often the list re-renders.
+
+export type SearchField = 'name' | 'account' | 'alias' | 'street' | 'city' | 'state' | 'zip' | 'contact' | 'email' | 'phone';
+
+// How much a word found in each field counts towards the ranking
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  account: 3,
+  alias: 2.5,
+  contact: 2,
+  email: 2,
+  phone: 2,
+  street: 1.5,
+  city: 1,
+  state: 1,
+  zip: 1,
+};
+
+export interface IndexedField {
+  field: SearchField;
+  text: string;
+  // What to show when this field is the reason a customer matched, e.g. the whole contact
+  context: string;
+}
+
+export interface SearchHit {
+  score: number;
+  // Indexed words that matched, for highlighting
+  terms: Set<string>;
+}
+
+export interface SearchOptions {
+  // Off for exclusions, so `-acme` does not also drop "Acne Ltd"
+  fuzzy?: boolean;
+}
+
+export interface SearchIndex {
+  reset: (customers: Customer[]) => void;
+  apply: (changes: CustomerChangeSet) => void;
+  // Customers matching every word of `text`, keyed by id
+  search: (text: string, options?: SearchOptions) => Map<string, SearchHit>;
+  // The fields of a customer containing any of `terms`
+  getMatchedFields: (id: string, terms: Set<string>) => IndexedField[];
+}
+
+interface WordSpan {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Lower-cased words with their position in `text`; accents are dropped so "Café" matches "cafe"
+export const splitWords = (text: string): WordSpan[] => {
+  const folded = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  // Folding can change the length, in which case positions are only approximate and highlighting is skipped
+  const sameLength = folded.length === text.length;
+  const spans: WordSpan[] = [];
+  for (const match of folded.toLowerCase().matchAll(/[a-z0-9]+/g)) {
+    const start = sameLength ? match.index! : -1;
+    spans.push({ word: match[0], start, end: sameLength ? start + match[0].length : -1 });
+  }
+  return spans;
+};
+
+// Identifiers are also indexed run together, so "ACC1001" finds "ACC-1001" and "5551234567" finds "(555) 123-4567"
+const COMPACT_FIELDS: SearchField[] = ['account', 'alias', 'phone'];
+
+export const getIndexTerms = (field: SearchField, text: string): string[] => {
+  const words = splitWords(text).map(s => s.word);
+  if (COMPACT_FIELDS.includes(field) && words.length > 1) words.push(words.join(''));
+  return words;
+};
+
+export const getIndexedFields = (customer: Customer): IndexedField[] => {
+  const fields: IndexedField[] = [
+    { field: 'name', text: customer.name, context: customer.name },
+    { field: 'account', text: customer.accountNumber, context: customer.accountNumber },
+    ...(customer.accountAliases || []).map(alias => ({ field: 'alias' as const, text: alias, context: `Former account ${alias}` })),
+  ];
+  customer.addresses.forEach(a => {
+    const context = [a.street, a.city, [a.state, a.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+    fields.push(
+      { field: 'street', text: a.street || '', context },
+      { field: 'city', text: a.city, context },
+      { field: 'state', text: a.state, context },
+      { field: 'zip', text: a.zipCode, context },
+    );
+  });
+  customer.contacts.forEach(c => {
+    const context = [c.name, c.email, c.phone].filter(Boolean).join(' · ');
+    fields.push(
+      { field: 'contact', text: c.name, context },
+      { field: 'email', text: c.email, context },
+      { field: 'phone', text: c.phone, context },
+    );
+  });
+  return fields.filter(f => f.text.trim());
+};
+
+// Words shorter than this only match exactly or as a prefix; longer ones allow one typo, then two
+const ONE_TYPO_LENGTH = 4;
+const TWO_TYPOS_LENGTH = 8;
+
+// Edit distance where swapping two neighbouring letters ("gloabl") counts as one typo
+const typoDistance = (a: string, b: string) => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// 0–1: how well an indexed word matches a search word, or 0 when it does not
+const matchQuality = (query: string, term: string, fuzzy: boolean): number => {
+  if (term === query) return 1;
+  // Search as you type: "glob" finds "global", longer prefixes counting for more
+  if (term.startsWith(query)) return 0.5 + 0.4 * (query.length / term.length);
+  // A digit off is a different account, zip or phone number, not a typo
+  if (!fuzzy || query.length < ONE_TYPO_LENGTH || /\d/.test(query)) return 0;
+  const maxEdits = query.length >= TWO_TYPOS_LENGTH ? 2 : 1;
+  if (Math.abs(term.length - query.length) > maxEdits) return 0;
+  const edits = typoDistance(query, term);
+  return edits <= maxEdits ? 0.6 - 0.15 * (edits - 1) : 0;
+};
+
+export const createSearchIndex = (customers: Customer[] = []): SearchIndex => {
+  // word → customer id → weight of the best field the word appears in
+  const postings = new Map<string, Map<string, number>>();
+  const fieldsById = new Map<string, IndexedField[]>();
+  // Indexed words matching a search word, per search word; cleared whenever the index changes
+  let termCache = new Map<string, [string, number][]>();
+
+  const remove = (id: string) => {
+    const fields = fieldsById.get(id);
+    if (!fields) return;
+    fields.forEach(({ field, text }) => getIndexTerms(field, text).forEach(term => {
+      const docs = postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) postings.delete(term);
+    }));
+    fieldsById.delete(id);
+  };
+
+  // Customers in the Trash are left out, as they are everywhere else the list searches
+  const add = (customer: Customer) => {
+    remove(customer.id);
+    if (customer.deletedAt) return;
+    const fields = getIndexedFields(customer);
+    fieldsById.set(customer.id, fields);
+    fields.forEach(({ field, text }) => getIndexTerms(field, text).forEach(term => {
+      let docs = postings.get(term);
+      if (!docs) postings.set(term, (docs = new Map()));
+      docs.set(customer.id, Math.max(docs.get(customer.id) || 0, FIELD_WEIGHTS[field]));
+    }));
+  };
+
+  const matchingTerms = (query: string, fuzzy: boolean) => {
+    const key = `${fuzzy ? '~' : '='}${query}`;
+    const cached = termCache.get(key);
+    if (cached) return cached;
+    const matches: [string, number][] = [];
+    postings.forEach((_, term) => {
+      const quality = matchQuality(query, term, fuzzy);
+      if (quality > 0) matches.push([term, quality]);
+    });
+    termCache.set(key, matches);
+    return matches;
+  };
+
+  const search = (text: string, { fuzzy = true }: SearchOptions = {}) => {
+    const words = [...new Set(splitWords(text).map(s => s.word))];
+    const hits = new Map<string, SearchHit>();
+    if (words.length === 0) return hits;
+
+    words.forEach((word, index) => {
+      // Best score for this word per customer
+      const wordHits = new Map<string, { score: number; terms: string[] }>();
+      matchingTerms(word, fuzzy).forEach(([term, quality]) => {
+        postings.get(term)!.forEach((weight, id) => {
+          // Every word must match, so later words only narrow the customers the first one found
+          if (index > 0 && !hits.has(id)) return;
+          const hit = wordHits.get(id);
+          if (hit) {
+            hit.score = Math.max(hit.score, quality * weight);
+            hit.terms.push(term);
+          } else {
+            wordHits.set(id, { score: quality * weight, terms: [term] });
+          }
+        });
+      });
+
+      if (index === 0) {
+        wordHits.forEach(({ score, terms }, id) => hits.set(id, { score, terms: new Set(terms) }));
+        return;
+      }
+      [...hits.keys()].forEach(id => {
+        const wordHit = wordHits.get(id);
+        if (!wordHit) {
+          hits.delete(id);
+          return;
+        }
+        const hit = hits.get(id)!;
+        hit.score += wordHit.score;
+        wordHit.terms.forEach(term => hit.terms.add(term));
+      });
+    });
+    return hits;
+  };
+
+  const index: SearchIndex = {
+    reset: (next) => {
+      postings.clear();
+      fieldsById.clear();
+      termCache = new Map();
+      next.forEach(add);
+    },
+    apply: ({ created, updated, removed }) => {
+      [...created, ...updated].forEach(add);
+      removed.forEach(remove);
+      termCache = new Map();
+    },
+    search,
+    getMatchedFields: (id, terms) =>
+      (fieldsById.get(id) || []).filter(({ field, text }) => getIndexTerms(field, text).some(term => terms.has(term))),
+  };
+
+  index.reset(customers);
+  return index;
+};
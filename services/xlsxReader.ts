@@ -0,0 +1,192 @@
+// Minimal .xlsx reader: an .xlsx file is a ZIP archive of SpreadsheetML parts. Entries are inflated
+// with the browser's DecompressionStream and parsed with DOMParser, so nothing leaves the machine.
+// Cell values are returned as the text Excel stored; number formats (e.g. dates) are not applied.
+
+export interface XlsxRow {
+  // 1-based row number in the sheet; sheets leave out empty rows, so these can skip
+  rowNumber: number;
+  values: string[];
+}
+
+export interface XlsxWorkbook {
+  sheetNames: string[];
+  // `onProgress` receives the fraction (0-1) of the sheet's compressed data read so far
+  readSheet: (name: string, onProgress?: (fraction: number) => void) => Promise<XlsxRow[]>;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const INFLATE_CHUNK_BYTES = 256 * 1024;
+
+const readZipDirectory = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end-of-central-directory record is 22 bytes plus a comment of up to 64KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('The file is not an Excel workbook.');
+
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('The workbook is damaged.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.set(decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)), {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readEntry = async (
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  name: string,
+  onProgress?: (fraction: number) => void
+): Promise<string> => {
+  const entry = entries.get(name);
+  if (!entry) throw new Error(`The workbook has no '${name}' part.`);
+
+  // The local header repeats the name and may carry a different extra field than the directory
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localHeaderOffset + 30
+    + view.getUint16(entry.localHeaderOffset + 26, true)
+    + view.getUint16(entry.localHeaderOffset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    onProgress?.(1);
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) throw new Error(`'${name}' uses an unsupported compression method.`);
+
+  const stream = new DecompressionStream('deflate-raw');
+  const output = new Response(stream.readable).text();
+  // Corrupt data fails the write and the read alike; the error is reported once, below
+  output.catch(() => {});
+  try {
+    const writer = stream.writable.getWriter();
+    for (let i = 0; i < data.length; i += INFLATE_CHUNK_BYTES) {
+      await writer.write(data.subarray(i, i + INFLATE_CHUNK_BYTES));
+      onProgress?.(Math.min(1, (i + INFLATE_CHUNK_BYTES) / data.length));
+    }
+    await writer.close();
+    return await output;
+  } catch {
+    throw new Error(`The workbook is damaged: '${name}' could not be decompressed.`);
+  }
+};
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The workbook contains invalid XML.');
+  return doc;
+};
+
+// SpreadsheetML may be written with or without namespace prefixes, so match on local names
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const childElement = (parent: Element, localName: string) =>
+  Array.from(parent.children).find(el => el.localName === localName);
+
+// Text of a shared or inline string, skipping phonetic guides (<rPh>) that repeat the text
+const stringItemText = (item: Element) =>
+  elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+// "AB12" -> 27
+const columnIndex = (ref: string) => {
+  let index = 0;
+  for (const ch of ref.toUpperCase()) {
+    const code = ch.charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+};
+
+const readCell = (cell: Element, sharedStrings: string[]) => {
+  const type = cell.getAttribute('t');
+  const value = childElement(cell, 'v')?.textContent || '';
+  if (type === 's') return sharedStrings[Number(value)] || '';
+  if (type === 'inlineStr') {
+    const inline = childElement(cell, 'is');
+    return inline ? stringItemText(inline) : '';
+  }
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  return value;
+};
+
+export const openXlsxWorkbook = async (file: File): Promise<XlsxWorkbook> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const entries = readZipDirectory(bytes);
+
+  const workbook = parseXml(await readEntry(bytes, entries, 'xl/workbook.xml'));
+  const rels = parseXml(await readEntry(bytes, entries, 'xl/_rels/workbook.xml.rels'));
+  const targets = new Map(elements(rels, 'Relationship').map(r => [r.getAttribute('Id'), r.getAttribute('Target') || '']));
+
+  const sheetPaths = new Map<string, string>();
+  elements(workbook, 'sheet').forEach(sheet => {
+    const relId = sheet.getAttributeNS(RELATIONSHIPS_NS, 'id') || sheet.getAttribute('r:id');
+    const target = targets.get(relId);
+    // Targets are relative to xl/ unless they start at the package root
+    if (target) sheetPaths.set(sheet.getAttribute('name') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  });
+  if (sheetPaths.size === 0) throw new Error('The workbook has no sheets.');
+
+  let sharedStrings: string[] | null = null;
+  const loadSharedStrings = async () => {
+    if (!sharedStrings) {
+      sharedStrings = entries.has('xl/sharedStrings.xml')
+        ? elements(parseXml(await readEntry(bytes, entries, 'xl/sharedStrings.xml')), 'si').map(stringItemText)
+        : [];
+    }
+    return sharedStrings;
+  };
+
+  const readSheet = async (name: string, onProgress?: (fraction: number) => void) => {
+    const path = sheetPaths.get(name);
+    if (!path) throw new Error(`The workbook has no sheet named '${name}'.`);
+    const strings = await loadSharedStrings();
+    const sheet = parseXml(await readEntry(bytes, entries, path, onProgress));
+
+    let previousRow = 0;
+    return elements(sheet, 'row').map(row => {
+      // Rows without a number follow the previous one
+      const r = Number(row.getAttribute('r'));
+      const rowNumber = Number.isInteger(r) && r > previousRow ? r : previousRow + 1;
+      previousRow = rowNumber;
+      const values: string[] = [];
+      elements(row, 'c').forEach(cell => {
+        const ref = cell.getAttribute('r');
+        // Cells without a reference follow the previous one
+        const idx = ref ? columnIndex(ref) : values.length;
+        while (values.length < idx) values.push('');
+        values[idx] = readCell(cell, strings);
+      });
+      return { rowNumber, values };
+    });
+  };
+
+  return { sheetNames: Array.from(sheetPaths.keys()), readSheet };
+};
@@ -29,11 +29,17 @@ export interface Customer {
   type: CustomerType;
   name: string;
   accountNumber: string;
+  accountAliases?: string[]; // Account numbers of duplicate customers merged into this one; still reserved
   isVip: boolean;
   addresses: Address[];
   parentId?: string | null; // Only for Direct customers
   contacts: Contact[];
   createdAt: string;
+  updatedAt: string;
+  version: number; // Incremented on every change; used to reject saves based on stale data
+  deletedAt?: string | null; // Set while the customer is in the Trash
+  deletedChildIds?: string[]; // Children unlinked by the delete, re-linked on restore
+  importBatchId?: string; // Set on customers created by an import, see ImportBatch
 }
 
 export interface CustomerFormData {
@@ -46,10 +52,138 @@ export interface CustomerFormData {
   contacts: Contact[];
 }
 
-export type SortField = 'name' | 'accountNumber' | 'type';
+// What happens to a sub-account when its parent is deleted
+export type ChildDisposition =
+  | { action: 'STANDALONE' }
+  | { action: 'MOVE'; parentId: string }
+  | { action: 'DELETE' }; // Goes to the Trash with the parent, together with its own sub-accounts
+
+// A change applied to every selected customer in the list at once
+export type BulkAction =
+  | { type: 'DELETE' } // Sub-accounts that are not selected become standalone
+  | { type: 'SET_VIP'; isVip: boolean }
+  | { type: 'ASSIGN_PARENT'; parentId: string }
+  | { type: 'DETACH' };
+
+// Result of saving a form. A conflict carries the record as it is now, so the user can merge;
+// `deleted` means the record was trashed or purged elsewhere and there is nothing left to save to.
+export type SaveResult = { ok: true } | { ok: false; conflict: Customer } | { ok: false; deleted: true };
+
+// 'relevance' ranks search results by how well they match; it only differs from name order while searching
+export type SortField = 'name' | 'accountNumber' | 'type' | 'relevance';
 export type SortDirection = 'asc' | 'desc';
 
 export interface SortConfig {
   field: SortField;
   direction: SortDirection;
-}
\ No newline at end of file
+}
+
+// A screen of the app and the record it shows; each has its own URL
+export type Route =
+  | { name: 'LIST' }
+  | { name: 'CREATE' }
+  | { name: 'CUSTOMER'; id: string }
+  | { name: 'EDIT'; id: string }
+  | { name: 'IMPORT' }
+  | { name: 'IMPORT_HISTORY' }
+  | { name: 'TRASH' }
+  | { name: 'HIERARCHY' }
+  | { name: 'DUPLICATES' }
+  | { name: 'NOT_FOUND'; path: string };
+
+export type ListLayout = 'TREE' | 'FLAT';
+
+// Everything that decides what the customer list shows; kept in the URL so a link reopens the same list
+export interface ListViewState {
+  query: string;
+  layout: ListLayout;
+  sort: SortConfig;
+  page: number;
+  expandedIds: string[]; // Rows opened in the unfiltered tree
+  collapsedIds: string[]; // Rows closed while a search is active, where every path to a match starts open
+}
+
+// A list state saved under a name; it always opens on the first page
+export interface SavedView {
+  id: string;
+  name: string;
+  state: Omit<ListViewState, 'page'>;
+  createdAt: string;
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE' | 'IMPORT' | 'ROLLBACK' | 'MERGE' | 'UNDO' | 'REDO';
+
+export interface FieldChange {
+  field: string; // Stable path, e.g. `addresses.addr_1.city`
+  label: string; // Human readable, e.g. `Address "123 Main St" › City`
+  before: string | boolean | null;
+  after: string | boolean | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  customerId: string;
+  customerName: string;
+  action: AuditAction;
+  actor: string;
+  timestamp: string;
+  changes: FieldChange[];
+  // Set when this record changed as a side effect of a mutation on another record
+  triggeredBy?: {
+    customerId: string;
+    customerName: string;
+    action: AuditAction;
+  };
+}
+
+// One data row of an import file, after its columns have been mapped to fields
+export interface ImportRow {
+  rowNumber: number;
+  customerName: string;
+  accountNumber: string;
+  parentCustomerName: string; // If empty -> Parent, If exists -> Direct, unless customerType says otherwise
+  // Address columns; rows of one account that repeat an address describe the same address
+  address: string; // Street
+  city: string;
+  state: string;
+  zipCode: string;
+  latitude: string;
+  longitude: string;
+  isPrimaryAddress: boolean;
+  isBillingAddress: boolean;
+  isGateProperty: boolean;
+  contactName: string;
+  contactEmail: string;
+  contactPhone: string;
+  isPrimary: boolean;
+  // 'Parent' or 'Direct'; blank takes the type from the parent column
+  customerType: string;
+  // Kept as text so a blank cell can leave an existing customer's flag alone
+  isVip: string;
+}
+
+export type ImportField = Exclude<keyof ImportRow, 'rowNumber'>;
+
+// CREATE rejects rows for existing account numbers, UPDATE only changes existing customers, UPSERT does both
+export type ImportMode = 'CREATE' | 'UPDATE' | 'UPSERT';
+
+// How imported contacts and addresses combine with the ones an existing customer already has
+export type CollectionMergeMode = 'MERGE' | 'REPLACE';
+
+// Where an import came from, as reported by the import screen
+export interface ImportSource {
+  fileName: string;
+  rowCount: number;
+  errorCount: number;
+}
+
+// One confirmed import. Customers it created carry its id in `importBatchId`.
+export interface ImportBatch extends ImportSource {
+  id: string;
+  importedAt: string;
+  actor: string;
+  createdCount: number;
+  // Updated customers as they were before the import, so a rollback can put them back
+  updatedBefore: Customer[];
+  rolledBackAt?: string | null;
+}
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.MAX_HIERARCHY_DEPTH': JSON.stringify(env.MAX_HIERARCHY_DEPTH)
       },
       resolve: {
         alias: {